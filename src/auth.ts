@@ -0,0 +1,38 @@
+import type { JWTVerifyError } from './verify'
+
+const quote = (value: string) => `"${value.replace(/["\\]/g, '\\$&')}"`
+
+/**
+ * Create a `WWW-Authenticate` challenge for a failed verification
+ *
+ * A request without a token doesn't get an error code
+ *
+ * @see {@link https://www.rfc-editor.org/rfc/rfc6750#section-3 RFC6750#section-3}
+ */
+export const challenge = (error?: Pick<JWTVerifyError, 'code' | 'message'>) => {
+	if (!error || error.code === 'missing') return 'Bearer'
+
+	return `Bearer error="invalid_token", error_description=${quote(error.message)}`
+}
+
+/**
+ * Create a `WWW-Authenticate` challenge for a token lacking a required scope or role
+ *
+ * @see {@link https://www.rfc-editor.org/rfc/rfc6750#section-3.1 RFC6750#section-3.1}
+ */
+export const insufficientScope = (scopes?: string[]) =>
+	scopes?.length
+		? `Bearer error="insufficient_scope", scope=${quote(scopes.join(' '))}`
+		: 'Bearer error="insufficient_scope"'
+
+/**
+ * Create a `WWW-Authenticate` challenge for a request failing DPoP verification
+ *
+ * @see {@link https://www.rfc-editor.org/rfc/rfc9449#section-7.1 RFC9449#section-7.1}
+ */
+export const dpopChallenge = (
+	error: Pick<JWTVerifyError, 'message'>,
+	algorithms: string[],
+	invalidProof = false
+) =>
+	`DPoP error="${invalidProof ? 'invalid_dpop_proof' : 'invalid_token'}", error_description=${quote(error.message)}, algs=${quote(algorithms.join(' '))}`
@@ -0,0 +1,102 @@
+import { now, toSeconds } from './time'
+
+export interface VerifyCacheOption {
+	/**
+	 * Maximum number of verified tokens kept, the least recently used is evicted first
+	 *
+	 * @default 1000
+	 */
+	max?: number
+
+	/**
+	 * Maximum duration a verified token is kept, as seconds or a relative time,
+	 * entries also expire with the token's `exp`
+	 *
+	 * @default '5m'
+	 */
+	ttl?: string | number
+}
+
+export interface VerifyCacheStats {
+	hits: number
+	misses: number
+	evictions: number
+	size: number
+	max: number
+}
+
+interface VerifyCacheEntry<Value> {
+	value: Value
+
+	/**
+	 * Unix timestamp in seconds, after which the entry is dropped
+	 */
+	expiresAt: number
+}
+
+/**
+ * Least recently used cache of verified tokens, keyed by a hash of the token
+ * so tokens themselves aren't kept in memory
+ */
+export const createVerifyCache = <Value>({
+	max = 1000,
+	ttl = '5m'
+}: VerifyCacheOption = {}) => {
+	if (!Number.isInteger(max) || max < 1)
+		throw new Error('Verify cache "max" must be a positive integer')
+
+	// Map keeps insertion order, re-inserting an entry marks it as most recently used
+	const entries = new Map<string, VerifyCacheEntry<Value>>()
+
+	let hits = 0
+	let misses = 0
+	let evictions = 0
+
+	return {
+		get(key: string) {
+			const entry = entries.get(key)
+
+			if (!entry || entry.expiresAt <= now()) {
+				if (entry) entries.delete(key)
+				misses++
+
+				return
+			}
+
+			entries.delete(key)
+			entries.set(key, entry)
+			hits++
+
+			return entry.value
+		},
+		/**
+		 * @param exp Unix timestamp in seconds the token expires at, if any
+		 */
+		set(key: string, value: Value, exp?: number) {
+			const expiresAt = Math.min(
+				exp ?? Number.POSITIVE_INFINITY,
+				now() + toSeconds(ttl)
+			)
+			if (expiresAt <= now()) return
+
+			entries.delete(key)
+			entries.set(key, { value, expiresAt })
+
+			for (const oldest of entries.keys()) {
+				if (entries.size <= max) break
+
+				entries.delete(oldest)
+				evictions++
+			}
+		},
+		delete(key: string) {
+			entries.delete(key)
+		},
+		clear() {
+			entries.clear()
+		},
+		stats(): VerifyCacheStats {
+			return { hits, misses, evictions, size: entries.size, max }
+		}
+	}
+}
@@ -0,0 +1,96 @@
+import type { CookieOptions } from 'elysia'
+
+import { now } from './time'
+
+/**
+ * Cookies of the request context, eg. `Context.cookie`
+ */
+export type CookieJar = Record<
+	string,
+	{
+		value?: unknown
+		set(config: CookieOptions & { value?: unknown }): unknown
+	}
+>
+
+export interface JWTCookieOption extends CookieOptions {
+	/**
+	 * Name of the cookie
+	 *
+	 * Prefix it with `__Host-` to bind the cookie to the host,
+	 * which requires `secure`, `path: '/'` and no `domain`
+	 *
+	 * @default 'auth'
+	 */
+	name?: string
+}
+
+/**
+ * Cookie attributes used unless overridden,
+ * keeping the token away from scripts and cross-site requests
+ */
+export const defaultCookie: CookieOptions = {
+	httpOnly: true,
+	secure: true,
+	sameSite: 'lax',
+	path: '/'
+}
+
+/**
+ * Ensure the attributes of a cookie satisfy its name prefix,
+ * as browsers silently reject the cookie otherwise
+ *
+ * @see {@link https://www.rfc-editor.org/rfc/rfc6265bis#section-4.1.3 RFC6265bis#section-4.1.3}
+ */
+export const assertCookiePrefix = (name: string, options: CookieOptions) => {
+	if (
+		(name.startsWith('__Secure-') || name.startsWith('__Host-')) &&
+		!options.secure
+	)
+		throw new Error(`Cookie "${name}" requires secure`)
+
+	if (
+		name.startsWith('__Host-') &&
+		(options.domain !== undefined || options.path !== '/')
+	)
+		throw new Error(`Cookie "${name}" requires path "/" and no domain`)
+}
+
+/**
+ * Write a token to a cookie, expiring the cookie together with the token
+ */
+export const writeCookie = (
+	cookie: CookieJar,
+	token: string,
+	exp: number | undefined,
+	{ name = 'auth', ...options }: JWTCookieOption
+) => {
+	const attributes = { ...defaultCookie, ...options }
+	assertCookiePrefix(name, attributes)
+
+	cookie[name].set({
+		...attributes,
+		value: token,
+		// A token without `exp` is kept for the browser session
+		...(exp !== undefined && {
+			expires: new Date(exp * 1000),
+			maxAge: Math.max(exp - now(), 0)
+		})
+	})
+}
+
+/**
+ * Expire a cookie, with the attributes it was set with
+ */
+export const removeCookie = (
+	cookie: CookieJar,
+	{ name = 'auth', ...options }: JWTCookieOption
+) => {
+	cookie[name].set({
+		...defaultCookie,
+		...options,
+		value: '',
+		expires: new Date(0),
+		maxAge: 0
+	})
+}
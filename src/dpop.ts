@@ -0,0 +1,181 @@
+import {
+	EmbeddedJWK,
+	base64url,
+	calculateJwkThumbprint,
+	errors,
+	jwtVerify,
+	type JWK
+} from 'jose'
+
+import type { OneTimeTokenStore } from './one-time'
+import type { JWTVerifyError } from './verify'
+
+/**
+ * `typ` header of DPoP proofs
+ *
+ * @see {@link https://www.rfc-editor.org/rfc/rfc9449#section-4.2 RFC9449#section-4.2}
+ */
+export const DPOP_PROOF_TYPE = 'dpop+jwt'
+
+export const defaultDPoPAlgorithms = [
+	'ES256',
+	'ES384',
+	'ES512',
+	'EdDSA',
+	'Ed25519',
+	'PS256',
+	'RS256'
+]
+
+/**
+ * Sender-constrained tokens with DPoP
+ *
+ * Tokens signed with the `dpop` option of `sign` are bound to the client's key,
+ * and are only accepted along with a DPoP proof signed by that key
+ *
+ * @see {@link https://www.rfc-editor.org/rfc/rfc9449 RFC9449}
+ */
+export interface DPoPOption {
+	/**
+	 * Maximum age of a proof from its `iat`, as seconds or a relative time
+	 *
+	 * @default '1m'
+	 */
+	proofMaxAge?: string | number
+
+	/**
+	 * Algorithms accepted for proofs
+	 *
+	 * @default ['ES256', 'ES384', 'ES512', 'EdDSA', 'Ed25519', 'PS256', 'RS256']
+	 */
+	algorithms?: string[]
+
+	/**
+	 * Storage of used proofs, so a proof can't be replayed
+	 *
+	 * @default createMemoryOneTimeTokenStore()
+	 */
+	store?: OneTimeTokenStore
+
+	/**
+	 * Reject tokens not bound to a key in the route macro,
+	 * otherwise they're accepted as bearer tokens
+	 *
+	 * @default false
+	 */
+	required?: boolean
+}
+
+export type DPoPProofResult =
+	| {
+			success: true
+			/**
+			 * Thumbprint of the proof key, to bind tokens to with the `dpop` option of `sign`
+			 */
+			jkt: string
+	  }
+	| {
+			success: false
+			error: JWTVerifyError
+	  }
+
+export interface DPoPProof {
+	jkt: string
+	jti: string
+	iat: number
+}
+
+/**
+ * Thumbprint of a public key, a thumbprint is returned as is
+ */
+export const thumbprintOf = (key: string | JWK) =>
+	typeof key === 'string' ? key : calculateJwkThumbprint(key, 'sha256')
+
+/**
+ * Hash of an access token, carried by a proof in `ath`
+ */
+export const accessTokenHash = async (token: string) =>
+	base64url.encode(
+		new Uint8Array(
+			await crypto.subtle.digest(
+				'SHA-256',
+				new TextEncoder().encode(token)
+			)
+		)
+	)
+
+// `htu` is compared without query and fragment
+const targetURI = (url: string) => {
+	const { origin, pathname } = new URL(url)
+
+	return origin + pathname
+}
+
+const mismatch = (claim: string, payload: Record<string, unknown>) =>
+	new errors.JWTClaimValidationFailed(
+		`unexpected "${claim}" claim value`,
+		payload,
+		claim,
+		'check_failed'
+	)
+
+/**
+ * Verify a DPoP proof for a request, and for an access token if given
+ *
+ * The proof `jti` is returned to be checked for replay
+ *
+ * @see {@link https://www.rfc-editor.org/rfc/rfc9449#section-4.3 RFC9449#section-4.3}
+ */
+export const verifyProof = async (
+	proof: string | null,
+	{
+		method,
+		url,
+		accessToken,
+		algorithms,
+		maxTokenAge,
+		clockTolerance
+	}: {
+		method: string
+		url: string
+		accessToken?: string
+		algorithms: string[]
+		maxTokenAge: string | number
+		clockTolerance?: string | number
+	}
+): Promise<DPoPProof> => {
+	if (!proof) throw new errors.JWTInvalid('DPoP proof is missing')
+
+	const { payload, protectedHeader } = await jwtVerify(proof, EmbeddedJWK, {
+		typ: DPOP_PROOF_TYPE,
+		algorithms,
+		maxTokenAge,
+		clockTolerance,
+		requiredClaims: ['jti', 'htm', 'htu', 'iat']
+	})
+
+	const jwk = protectedHeader.jwk!
+	if ('d' in jwk)
+		throw new errors.JWSInvalid('DPoP proof must not contain a private key')
+
+	if (payload.htm !== method) throw mismatch('htm', payload)
+
+	if (
+		typeof payload.htu !== 'string' ||
+		!URL.canParse(payload.htu) ||
+		targetURI(payload.htu) !== targetURI(url)
+	)
+		throw mismatch('htu', payload)
+
+	if (
+		accessToken !== undefined &&
+		payload.ath !== (await accessTokenHash(accessToken))
+	)
+		throw mismatch('ath', payload)
+
+	return {
+		jkt: await calculateJwkThumbprint(jwk, 'sha256'),
+		jti: payload.jti!,
+		iat: payload.iat!
+	}
+}
@@ -0,0 +1,115 @@
+import type { MaybePromise } from './types'
+
+/**
+ * Part of the request context a token can be extracted from
+ */
+export interface TokenContext {
+	headers: Record<string, string | undefined>
+	cookie?: Record<string, { value?: unknown }>
+	query?: Record<string, string | string[] | undefined>
+}
+
+export type TokenExtractor = (
+	context: TokenContext
+) => MaybePromise<string | null | undefined>
+
+/**
+ * Where to look for a token
+ *
+ * - `{ header, scheme }`: a request header, eg. `Authorization: Bearer <token>`.
+ *   Without `scheme`, the whole header value is used as the token
+ * - `{ cookie }`: a cookie, eg. for browser clients
+ * - `{ query }`: a query parameter, eg. for SSE or download links
+ * - a function returning the token
+ */
+export type TokenSource =
+	| { header: string; scheme?: string }
+	| { cookie: string }
+	| { query: string }
+	| TokenExtractor
+
+export interface ExtractedToken {
+	token: string
+
+	/**
+	 * Kind of source the token was found in
+	 */
+	source: 'header' | 'cookie' | 'query' | 'custom'
+
+	/**
+	 * Name of the header, cookie or query parameter the token was found in
+	 */
+	name?: string
+}
+
+export const defaultTokenSources: TokenSource[] = [
+	{ header: 'authorization', scheme: 'Bearer' }
+]
+
+/**
+ * Sources a token is read from, DPoP tokens are read first when `dpop` is set
+ */
+export const resolveTokenSources = (
+	extractor?: TokenSource | TokenSource[],
+	dpop?: unknown
+): TokenSource[] => {
+	if (extractor) return Array.isArray(extractor) ? extractor : [extractor]
+
+	return dpop
+		? [{ header: 'authorization', scheme: 'DPoP' }, ...defaultTokenSources]
+		: defaultTokenSources
+}
+
+/**
+ * Read a token from a header value, stripping its authentication scheme
+ *
+ * @see {@link https://www.rfc-editor.org/rfc/rfc6750#section-2.1 RFC6750#section-2.1}
+ */
+export const fromHeader = (value?: string | null, scheme?: string) => {
+	if (!value) return
+	if (!scheme) return value.trim() || undefined
+
+	const [prefix, token] = value.trim().split(/\s+/)
+	if (prefix?.toLowerCase() !== scheme.toLowerCase() || !token) return
+
+	return token
+}
+
+/**
+ * Create a function looking up sources in order, returning the first token found
+ */
+export const createExtractor =
+	(sources: TokenSource | TokenSource[] = defaultTokenSources) =>
+	async (context: TokenContext): Promise<ExtractedToken | undefined> => {
+		for (const source of Array.isArray(sources) ? sources : [sources]) {
+			if (typeof source === 'function') {
+				const token = await source(context)
+				if (token) return { token, source: 'custom' }
+
+				continue
+			}
+
+			if ('header' in source) {
+				const token = fromHeader(
+					context.headers[source.header.toLowerCase()],
+					source.scheme
+				)
+				if (token)
+					return { token, source: 'header', name: source.header }
+
+				continue
+			}
+
+			if ('cookie' in source) {
+				const token = context.cookie?.[source.cookie]?.value
+				if (typeof token === 'string' && token)
+					return { token, source: 'cookie', name: source.cookie }
+
+				continue
+			}
+
+			const token = context.query?.[source.query]
+			if (typeof token === 'string' && token)
+				return { token, source: 'query', name: source.query }
+		}
+	}
@@ -0,0 +1,123 @@
+import type { ProtectedHeaderParameters } from 'jose'
+
+import type { MaybePromise } from './types'
+import type { JWTVerifyError } from './verify'
+
+/**
+ * Registered claims of a token, custom claims are left out
+ * so hooks don't leak personal data into logs
+ */
+export interface JWTEventClaims {
+	iss?: string
+	sub?: string
+	aud?: string | string[]
+	jti?: string
+	nbf?: number
+	exp?: number
+	iat?: number
+}
+
+export interface JWTSignEvent {
+	header: ProtectedHeaderParameters
+	claims: JWTEventClaims
+
+	/**
+	 * Time taken to sign, in milliseconds
+	 */
+	duration: number
+
+	/**
+	 * Signed token, only set with `exposeTokenToHooks`
+	 */
+	token?: string
+}
+
+export interface JWTVerifyEvent {
+	header: ProtectedHeaderParameters
+	claims: JWTEventClaims
+
+	/**
+	 * Time taken to verify, in milliseconds
+	 */
+	duration: number
+
+	/**
+	 * Verified token, only set with `exposeTokenToHooks`
+	 */
+	token?: string
+}
+
+export interface JWTVerifyErrorEvent {
+	error: JWTVerifyError
+
+	/**
+	 * Header of the token, if it can be decoded
+	 */
+	header?: ProtectedHeaderParameters
+
+	/**
+	 * Claims of the token, if it can be decoded
+	 *
+	 * They're not verified, and may have been forged
+	 */
+	claims?: JWTEventClaims
+
+	/**
+	 * Time taken to verify, in milliseconds
+	 */
+	duration: number
+
+	/**
+	 * Rejected token, only set with `exposeTokenToHooks`
+	 */
+	token?: string
+}
+
+/**
+ * Hooks called after tokens are signed and verified, eg. for audit logs or metrics
+ *
+ * Hooks run in the background, so they never delay or fail `sign` and `verify`.
+ * Errors thrown by a hook are ignored
+ */
+export interface JWTHookOption {
+	onSign?(event: JWTSignEvent): MaybePromise<unknown>
+	onVerify?(event: JWTVerifyEvent): MaybePromise<unknown>
+	onVerifyError?(event: JWTVerifyErrorEvent): MaybePromise<unknown>
+
+	/**
+	 * Pass the raw token to hooks
+	 *
+	 * Anyone reading the logs could then use the tokens
+	 *
+	 * @default false
+	 */
+	exposeTokenToHooks?: boolean
+}
+
+const eventClaims = ['iss', 'sub', 'aud', 'jti', 'nbf', 'exp', 'iat'] as const
+
+/**
+ * Pick the registered claims of a payload
+ */
+export const pickClaims = (payload: Record<string, unknown>) => {
+	const claims: Record<string, unknown> = {}
+	for (const claim of eventClaims)
+		if (payload[claim] !== undefined) claims[claim] = payload[claim]
+
+	return claims as JWTEventClaims
+}
+
+/**
+ * Call a hook in the background, building its event only if the hook is set
+ */
+export const emit = <Event>(
+	hook: ((event: Event) => MaybePromise<unknown>) | undefined,
+	event: () => MaybePromise<Event>
+) => {
+	if (!hook) return
+
+	Promise.resolve()
+		.then(event)
+		.then(hook)
+		.catch(() => {})
+}
@@ -1,16 +1,188 @@
-import { Elysia, t, ValidationError, getSchemaValidator } from 'elysia'
-import type { AnySchema, UnwrapSchema } from 'elysia/types'
+import { Elysia } from 'elysia'
+import type {
+	AnySchema,
+	StandardSchemaV1Like,
+	UnwrapSchema
+} from 'elysia/types'
 
 import {
+	EncryptJWT,
 	SignJWT,
+	decodeJwt,
+	decodeProtectedHeader,
+	errors,
 	jwtVerify,
-	type CryptoKey,
-	type JWK,
-	type KeyObject,
 	type JoseHeaderParameters,
+	type JWK,
+	type JWSHeaderParameters,
+	type JWTPayload,
 	type JWTVerifyOptions
 } from 'jose'
 
+import {
+	createPublicKeySet,
+	createRemoteKeySet,
+	type JWKSSource,
+	type PublishJWKSOption
+} from './jwks'
+import {
+	createVerifyCache,
+	type VerifyCacheOption,
+	type VerifyCacheStats
+} from './cache'
+import { createEncryption, type JWEOption } from './jwe'
+import {
+	defaultIntrospectionResponse,
+	isIssuedTo,
+	readClientCredentials,
+	readTokenParameter,
+	type OAuthEndpointOption
+} from './oauth'
+import {
+	createIDTokenVerifier,
+	type IDTokenClaims,
+	type IDTokenVerifyOption,
+	type OIDCOption
+} from './oidc'
+import { documentRoute, jwtSecuritySchemes } from './openapi'
+import { createPayloadValidator } from './schema'
+import {
+	meetsRequirement,
+	readClaim,
+	requiredValues,
+	toClaimList,
+	type JWTRouteOption
+} from './scope'
+import {
+	assertKey,
+	createKey,
+	createKeyRing,
+	isRetired,
+	type JWTKey,
+	type JWTKeyMaterial,
+	type JWTSecret,
+	type ResolvedKey
+} from './keys'
+import { challenge, dpopChallenge, insufficientScope } from './auth'
+import {
+	assertCookiePrefix,
+	defaultCookie,
+	removeCookie,
+	writeCookie,
+	type CookieJar,
+	type JWTCookieOption
+} from './cookie'
+import {
+	createExtractor,
+	fromHeader,
+	resolveTokenSources,
+	type TokenSource
+} from './extract'
+import {
+	accessTokenHash,
+	defaultDPoPAlgorithms,
+	thumbprintOf,
+	verifyProof,
+	type DPoPOption,
+	type DPoPProofResult
+} from './dpop'
+import {
+	REFRESH_TOKEN_TYPE,
+	createMemoryRefreshTokenStore,
+	type JWTRefreshResult,
+	type JWTTokenPair,
+	type RefreshTokenOption
+} from './refresh'
+import {
+	ONE_TIME_TOKEN_TYPE,
+	createMemoryOneTimeTokenStore,
+	type OneTimeTokenOption
+} from './one-time'
+import {
+	createMemoryRevocationStore,
+	type RevocationOption
+} from './revocation'
+import { emit, pickClaims, type JWTHookOption } from './hooks'
+import { slideSession, type SlidingSessionOption } from './sliding'
+import {
+	createSecretResolver,
+	type JWTSecretResolver,
+	type TenantCacheOption
+} from './tenant'
+import { now, toSeconds } from './time'
+import {
+	missingToken,
+	toVerifyError,
+	type JWTVerifyError,
+	type JWTVerifyResult
+} from './verify'
+
+export type {
+	JWKSFetcher,
+	JWKSOption,
+	JWKSSource,
+	PublishJWKSOption
+} from './jwks'
+export type { VerifyCacheOption, VerifyCacheStats } from './cache'
+export type { JWEOption } from './jwe'
+export type { OAuthClientCredentials, OAuthEndpointOption } from './oauth'
+export type {
+	IDTokenAddress,
+	IDTokenClaims,
+	IDTokenVerifyOption,
+	OIDCOption
+} from './oidc'
+export type { DPoPOption, DPoPProofResult } from './dpop'
+export type { CookieJar, JWTCookieOption } from './cookie'
+export type {
+	ExtractedToken,
+	TokenContext,
+	TokenExtractor,
+	TokenSource
+} from './extract'
+export type { JWTKey, JWTKeyMaterial, JWTSecret } from './keys'
+export { createMemoryRefreshTokenStore } from './refresh'
+export type {
+	JWTRefreshResult,
+	JWTTokenPair,
+	RefreshTokenOption,
+	RefreshTokenRotation,
+	RefreshTokenStore
+} from './refresh'
+export { createMemoryOneTimeTokenStore } from './one-time'
+export type { OneTimeTokenOption, OneTimeTokenStore } from './one-time'
+export {
+	createMemoryRevocationStore,
+	createSQLiteRevocationStore
+} from './revocation'
+export { jwtSecuritySchemes } from './openapi'
+export type { JWTSecurityScheme, JWTSecuritySchemeOption } from './openapi'
+export type { ClaimRequirement, JWTRouteOption } from './scope'
+export type {
+	RevocationClaims,
+	RevocationOption,
+	RevocationStore,
+	SQLiteDatabase
+} from './revocation'
+export type { SlidingSessionOption } from './sliding'
+export type {
+	JWTEventClaims,
+	JWTHookOption,
+	JWTSignEvent,
+	JWTVerifyErrorEvent,
+	JWTVerifyEvent
+} from './hooks'
+export type {
+	JWTSecretContext,
+	JWTSecretResolver,
+	TenantCacheOption
+} from './tenant'
+export type {
+	JWTVerifyError,
+	JWTVerifyErrorCode,
+	JWTVerifyResult
+} from './verify'
+
 type Prettify<T> = {
 	[K in keyof T]: T[K]
 } & {}
@@ -32,6 +204,30 @@ type UnwrapSchemaWithFallback<
 	Fallback = unknown
 > = Schema extends AnySchema ? UnwrapSchema<NonNullable<Schema>> : Fallback
 
+// `UnwrapSchema` infers the output of a Standard Schema, `sign` accepts its input before transforms
+type UnwrapSchemaInput<
+	Schema extends AnySchema | undefined,
+	Fallback = unknown
+> = Schema extends StandardSchemaV1Like
+	? NonNullable<Schema['~standard']['types']>['input']
+	: UnwrapSchemaWithFallback<Schema, Fallback>
+
+type SignPayload<Schema extends AnySchema | undefined> = Prettify<
+	Omit<UnwrapSchemaInput<Schema, ClaimType>, NormalizedClaim> &
+		JWTPayloadInput
+>
+
+type VerifiedPayload<Schema extends AnySchema | undefined> =
+	UnwrapSchemaWithFallback<Schema, ClaimType> &
+		Omit<JWTPayloadSpec, keyof UnwrapSchema<Schema, {}>>
+
+// Claims read without validation are the schema input, before transforms
+type DecodedPayload<Schema extends AnySchema | undefined> = UnwrapSchemaInput<
+	Schema,
+	ClaimType
+> &
+	Omit<JWTPayloadSpec, keyof UnwrapSchemaInput<Schema, {}>>
+
 /**
  * This interface is a specific, strongly-typed representation of the
  * standard claims found in a JWT payload.
@@ -154,17 +350,68 @@ export interface JWTHeaderParameters extends JoseHeaderParameters {
 	crit?: string[]
 }
 
+/**
+ * Per-call options of `sign`, applied to a single token
+ *
+ * Only `dpop` is written to the payload, as the `cnf` claim
+ *
+ * ---
+ * @example
+ * ```typescript
+ * jwt.sign(
+ *     { sub: 'shirakami', sid: session.id },
+ *     { header: { typ: 'logout+jwt' }, key: 'logout' }
+ * )
+ * ```
+ */
+export interface JWTSignOption {
+	/**
+	 * Header parameters of the token, merged over the configured ones
+	 *
+	 * Use it for an explicit type such as `at+jwt`, or custom header parameters.
+	 * `alg` and `kid` always come from the signing key, use `key` and `alg` instead
+	 */
+	header?: Omit<JWTHeaderParameters, 'alg' | 'kid'> & {
+		alg?: never
+		kid?: never
+	} & Record<string, unknown>
+
+	/**
+	 * Key to sign with instead of the active key
+	 *
+	 * A string selects a key of the ring by its `kid`,
+	 * use `{ secret }` to sign with an HMAC secret outside of the ring
+	 */
+	key?: string | (JWTKeyMaterial & { kid?: string })
+
+	/**
+	 * Algorithm to sign with, defaults to the algorithm of the key
+	 *
+	 * Must match the algorithm of a configured key, as `verify` rejects any other.
+	 * Only a `key` passed as an object can sign with another algorithm
+	 */
+	alg?: string
+
+	/**
+	 * Bind the token to the client's DPoP key, as its public JWK or thumbprint
+	 *
+	 * The thumbprint is returned by `verifyDPoPProof` for the token request
+	 */
+	dpop?: string | JWK
+}
+
 export interface JWTOption<
 	Name extends string | undefined = 'jwt',
 	Schema extends AnySchema | undefined = undefined
-> extends JWTHeaderParameters,
-		JWTPayloadInput {
+>
+	extends JWTHeaderParameters, JWTPayloadInput, JWTHookOption {
 	/**
 	 * Name to decorate method as
 	 *
 	 * ---
 	 * @example
-	 * For example, `jwt` will decorate Context with `Context.jwt`
+	 * For example, `jwt` will decorate Context with `Context.jwt`,
+	 * and register a `jwt` macro to protect a route with `{ jwt: true }`
 	 *
 	 * ```typescript
 	 * app
@@ -180,8 +427,299 @@ export interface JWTOption<
 	name?: Name
 	/**
 	 * JWT Secret
+	 *
+	 * Either an HMAC secret, or a PEM encoded PKCS#8 private key,
+	 * SPKI public key or X.509 certificate matching `alg`
+	 *
+	 * Required unless `privateKey`, `publicKey`, `keys` or `jwks` is provided
+	 *
+	 * Pass a resolver to use a secret per tenant,
+	 * called with the token's tenant, header and claims
+	 *
+	 * ---
+	 * @example
+	 * ```typescript
+	 * jwt({
+	 *     secret: async ({ tenant }) => {
+	 *         const settings = await db.tenant.find(tenant)
+	 *
+	 *         return settings?.jwtSecret
+	 *     }
+	 * })
+	 * ```
+	 */
+	secret?: JWTSecret | JWTSecretResolver
+	/**
+	 * Private key used by `sign`, as PEM, JWK, CryptoKey or KeyObject
+	 *
+	 * The public key used by `verify` is derived from it unless `publicKey` is provided
+	 */
+	privateKey?: JWTSecret
+	/**
+	 * Public key used by `verify`, as PEM, JWK, CryptoKey or KeyObject
+	 *
+	 * Provide it without `privateKey` to verify tokens
+	 * without ever holding signing material
+	 */
+	publicKey?: JWTSecret
+	/**
+	 * Key ring for key rotation
+	 *
+	 * `sign` uses the active key and stamps its `kid` into the header,
+	 * while `verify` picks the key matching the token's `kid`
+	 *
+	 * ---
+	 * @example
+	 * ```typescript
+	 * jwt({
+	 *     keys: [
+	 *         { kid: '2026-10', secret: process.env.JWT_SECRET, active: true },
+	 *         {
+	 *             kid: '2026-04',
+	 *             secret: process.env.JWT_PREVIOUS_SECRET,
+	 *             verifyUntil: '2026-11-01'
+	 *         }
+	 *     ]
+	 * })
+	 * ```
+	 */
+	keys?: JWTKey[]
+	/**
+	 * Remote JSON Web Key Set used by `verify`
+	 *
+	 * Accepts a URL, a custom fetcher, or an object to configure caching.
+	 * Keys are resolved by the token's `kid`, cached for `ttl` and refetched
+	 * at most once per `cooldown` when an unknown `kid` is seen.
+	 * If a fetch fails, the previously fetched keys are used instead
+	 *
+	 * Local `secret` or `keys` take priority when they match the token's `kid`,
+	 * a local key without `kid` only takes tokens of its algorithm
+	 *
+	 * ---
+	 * @example
+	 * ```typescript
+	 * jwt({
+	 *     jwks: 'https://example.com/.well-known/jwks.json'
+	 * })
+	 * ```
+	 */
+	jwks?: JWKSSource
+	/**
+	 * Mount a route serving the public keys of `secret` or `keys`
+	 * as a JSON Web Key Set, so other services can verify tokens from `sign`
+	 *
+	 * Only the public half of asymmetric keys is published,
+	 * symmetric secrets are never exposed
+	 *
+	 * Pass a string to change the path, `/.well-known/jwks.json` by default
+	 */
+	publishJWKS?: boolean | string | PublishJWKSOption
+	/**
+	 * Mount OAuth token introspection and revocation endpoints,
+	 * protected by client authentication
+	 *
+	 * ---
+	 * @example
+	 * ```typescript
+	 * jwt({
+	 *     secret: process.env.JWT_SECRET,
+	 *     revocation: true,
+	 *     oauth: {
+	 *         authenticateClient: (client) =>
+	 *             client.type === 'basic' &&
+	 *             client.clientId === 'billing' &&
+	 *             client.clientSecret === process.env.BILLING_CLIENT_SECRET
+	 *     }
+	 * })
+	 * ```
+	 */
+	oauth?: OAuthEndpointOption
+	/**
+	 * Verify ID tokens of an OpenID Connect provider with `verifyIdToken`
+	 *
+	 * ---
+	 * @example
+	 * ```typescript
+	 * jwt({
+	 *     secret: process.env.JWT_SECRET,
+	 *     oidc: {
+	 *         issuer: 'https://accounts.google.com',
+	 *         clientId: process.env.GOOGLE_CLIENT_ID
+	 *     }
+	 * })
+	 * ```
+	 */
+	oidc?: OIDCOption
+	/**
+	 * Ordered list of sources to extract a token from,
+	 * used by `extract` and the route macro
+	 *
+	 * @default [{ header: 'authorization', scheme: 'Bearer' }]
+	 *
+	 * ---
+	 * @example
+	 * ```typescript
+	 * jwt({
+	 *     secret: process.env.JWT_SECRET,
+	 *     extractor: [
+	 *         { header: 'authorization', scheme: 'Bearer' },
+	 *         { cookie: 'auth' },
+	 *         { query: 'token' }
+	 *     ]
+	 * })
+	 * ```
+	 */
+	extractor?: TokenSource | TokenSource[]
+	/**
+	 * Configure access and refresh tokens issued by `issuePair`
+	 *
+	 * Refresh tokens are rotated on every `refresh`, replaying a rotated
+	 * refresh token revokes every token issued from the same `issuePair`
+	 */
+	refresh?: RefreshTokenOption
+	/**
+	 * Configure one-time tokens issued by `oneTime.create`,
+	 * eg. for email verification or password reset links
+	 */
+	oneTime?: OneTimeTokenOption
+	/**
+	 * Accept DPoP sender-constrained tokens, bound to a client key with the `dpop` option of `sign`
+	 *
+	 * The route macro requires a valid DPoP proof for bound tokens,
+	 * and reads tokens from `Authorization: DPoP <token>` unless `extractor` is set
+	 */
+	dpop?: DPoPOption | boolean
+	/**
+	 * Allow tokens to be revoked before they expire with `revoke` and `revokeAllFor`
+	 *
+	 * `verify` rejects revoked tokens, using an in-memory store by default
+	 */
+	revocation?: boolean | RevocationOption
+	/**
+	 * Cache verified tokens, so `verify` skips the signature check of tokens seen recently
+	 *
+	 * Entries expire with the token's `exp` or after `ttl`, revocation is still checked
+	 * and tokens signed by a retired or removed key are rejected.
+	 * Only `verify` calls without per-call options use the cache
+	 *
+	 * ---
+	 * @example
+	 * ```typescript
+	 * jwt({
+	 *     secret: process.env.JWT_SECRET,
+	 *     verifyCache: { max: 10_000, ttl: '1m' }
+	 * })
+	 * ```
+	 */
+	verifyCache?: boolean | VerifyCacheOption
+	/**
+	 * Encrypt tokens as compact JWE, so their claims can't be read by the client
+	 *
+	 * `sign` and `verify` encrypt and decrypt transparently,
+	 * set `nested` to sign the token before encrypting it
+	 *
+	 * ---
+	 * @example
+	 * ```typescript
+	 * jwt({
+	 *     encryption: {
+	 *         alg: 'dir',
+	 *         enc: 'A256GCM',
+	 *         secret: base64url.decode(process.env.JWE_SECRET)
+	 *     }
+	 * })
+	 * ```
+	 */
+	encryption?: JWEOption
+	/**
+	 * Re-sign tokens verified by the route macro when their remaining lifetime
+	 * drops below `threshold`, so sessions extend while the user is active
+	 *
+	 * The re-signed token is set on the cookie the token was read from,
+	 * or returned in the `x-access-token` response header
+	 *
+	 * ---
+	 * @example
+	 * ```typescript
+	 * jwt({
+	 *     secret: process.env.JWT_SECRET,
+	 *     exp: '30m',
+	 *     sliding: { threshold: '10m', maxAge: '12h' }
+	 * })
+	 * ```
+	 */
+	sliding?: SlidingSessionOption
+	/**
+	 * Name and attributes of the cookie used by `setCookie`,
+	 * `readCookie` and `clearCookie`
+	 *
+	 * @default { name: 'auth', httpOnly: true, secure: true, sameSite: 'lax', path: '/' }
+	 */
+	cookie?: JWTCookieOption
+	/**
+	 * Claim holding the tenant of a token, passed to a `secret` resolver
+	 * and used to cache the tenant's key
+	 *
+	 * @default 'tid'
+	 */
+	tenantClaim?: string
+	/**
+	 * Caching of the keys resolved by a `secret` resolver, per tenant
+	 *
+	 * A removed tenant or a rotated secret is picked up after `ttl`,
+	 * or right away with `invalidateTenant`
+	 *
+	 * @default { ttl: '5m', max: 1000 }
+	 */
+	tenantCache?: TenantCacheOption
+	/**
+	 * Claim holding the scopes checked by `requireScopes`,
+	 * either a space-delimited string or an array.
+	 * Nested claims can be read with a path, eg. `realm_access.scope`
+	 *
+	 * @default 'scope'
+	 */
+	scopeClaim?: string
+	/**
+	 * Claim holding the roles checked by `requireRoles`,
+	 * either a space-delimited string or an array.
+	 * Nested claims can be read with a path, eg. `realm_access.roles`
+	 *
+	 * @default 'roles'
+	 */
+	roleClaim?: string
+	/**
+	 * Name of the OpenAPI security scheme referenced by routes guarded by the macro,
+	 * which also document their 401 and 403 responses
+	 *
+	 * Register the scheme with `jwtSecuritySchemes` before setting it,
+	 * as routes referencing an unknown scheme make the document invalid.
+	 * Without it, only the responses are documented, pass `false` to skip documentation
+	 *
+	 * ---
+	 * @example
+	 * ```typescript
+	 * app.use(
+	 *     openapi({
+	 *         documentation: {
+	 *             components: { securitySchemes: jwtSecuritySchemes() }
+	 *         }
+	 *     })
+	 * )
+	 * .use(jwt({ secret: process.env.JWT_SECRET, securityScheme: 'bearerAuth' }))
+	 * ```
+	 */
+	securityScheme?: string | false
+	/**
+	 * Clock skew tolerated when verifying `exp`, `nbf` and `iat`,
+	 * as seconds or a relative time, eg. '30s'
 	 */
-	secret: string | Uint8Array | CryptoKey | JWK | KeyObject
+	clockTolerance?: string | number
+	/**
+	 * Maximum age of a token from its `iat`, eg. '1d',
+	 * tokens without `iat` are rejected when set
+	 */
+	maxTokenAge?: string | number
 	/**
 	 * Type strict validation for JWT payload
 	 */
@@ -194,186 +732,1386 @@ export const jwt = <
 >({
 	name = 'jwt' as Name,
 	secret,
+	privateKey,
+	publicKey,
+	keys,
+	jwks,
+	publishJWKS,
+	oauth,
+	oidc,
+	extractor,
+	refresh,
+	oneTime,
+	dpop,
+	revocation,
+	verifyCache: verifyCacheOption,
+	encryption,
+	sliding,
+	cookie: cookieOption,
+	tenantClaim = 'tid',
+	tenantCache,
+	scopeClaim = 'scope',
+	roleClaim = 'roles',
+	securityScheme,
+	clockTolerance,
+	maxTokenAge,
+	onSign,
+	onVerify,
+	onVerifyError,
+	exposeTokenToHooks = false,
 	schema,
 	...defaultValues
 }: // End JWT Payload
 JWTOption<Name, Schema>) => {
-	if (!secret) throw new Error("Secret can't be empty")
-
-	const key =
-		typeof secret === 'string' ? new TextEncoder().encode(secret) : secret
-
-	const validator = schema
-		? getSchemaValidator(schema, {
-				modules: t.Module({}),
-				validators: [
-					t.Object({
-						iss: t.Optional(t.String()),
-						sub: t.Optional(t.String()),
-						aud: t.Optional(
-							t.Union([t.String(), t.Array(t.String())])
-						),
-						jti: t.Optional(t.String()),
-						nbf: t.Optional(t.Number()),
-						exp: t.Optional(t.Number()),
-						iat: t.Optional(t.Number())
-					})
-				]
+	const secretResolver =
+		typeof secret === 'function'
+			? createSecretResolver(secret, {
+					alg: defaultValues.alg ?? 'HS256',
+					kid: defaultValues.kid,
+					tenantClaim,
+					...tenantCache
+				})
+			: undefined
+
+	if (secretResolver && (privateKey || publicKey || keys?.length))
+		throw new Error(
+			"A secret resolver can't be combined with privateKey, publicKey or keys"
+		)
+
+	const keyRing = createKeyRing({
+		secret: typeof secret === 'function' ? undefined : secret,
+		privateKey,
+		publicKey,
+		keys,
+		alg: defaultValues.alg,
+		kid: defaultValues.kid,
+		remote: !!jwks
+	})
+	const remoteKeySet = jwks ? createRemoteKeySet(jwks) : undefined
+	const encryptor = encryption ? createEncryption(encryption) : undefined
+
+	// Tokens encrypted without nesting are never signed
+	const signed = !encryptor || encryptor.nested
+
+	if (signed && !keyRing && !remoteKeySet && !secretResolver && !oidc)
+		throw new Error("Secret can't be empty")
+
+	const verifyIDToken = oidc
+		? createIDTokenVerifier(oidc, clockTolerance)
+		: undefined
+
+	const resolveKey = async (
+		header: JWSHeaderParameters,
+		claims: () => JWTPayload
+	) => {
+		const key = keyRing?.find(header)
+		if (key) return assertKey(key, header)
+
+		if (secretResolver) {
+			const resolved = await secretResolver.resolve(header, claims())
+			if (resolved) return assertKey(resolved, header)
+		}
+
+		if (remoteKeySet) {
+			if (defaultValues.alg && header.alg !== defaultValues.alg)
+				throw new errors.JOSEAlgNotAllowed(
+					'"alg" (Algorithm) Header Parameter value not allowed'
+				)
+
+			return remoteKeySet.resolve(header)
+		}
+
+		throw new errors.JWKSNoMatchingKey()
+	}
+
+	const validatePayload = schema ? createPayloadValidator(schema) : undefined
+
+	const {
+		store: revocationStore = revocation
+			? createMemoryRevocationStore()
+			: undefined,
+		generateJti = !!revocation,
+		maxTokenAge: revocationMaxAge = maxTokenAge ??
+			(typeof defaultValues.exp === 'string'
+				? defaultValues.exp
+				: undefined)
+	}: RevocationOption = typeof revocation === 'object' ? revocation : {}
+
+	// Revocation of a token with unknown `exp` can be removed once `maxTokenAge` passed
+	const revokedUntil = (from = now()) =>
+		revocationMaxAge !== undefined
+			? from + toSeconds(revocationMaxAge)
+			: undefined
+
+	// Key selected by `sign`, the active or resolved key unless one is given per call
+	const selectKey = async (
+		key: JWTSignOption['key'],
+		alg: string | undefined,
+		header: JWTSignOption['header'] = {},
+		payload: Record<string, unknown>
+	): Promise<ResolvedKey | undefined> => {
+		if (typeof key === 'object')
+			return createKey({
+				...key,
+				alg: alg ?? defaultValues.alg ?? 'HS256'
 			})
+
+		const selected =
+			key === undefined
+				? secretResolver
+					? await secretResolver.resolve(header, payload)
+					: keyRing?.active
+				: keyRing?.keys.find((ringKey) => ringKey.kid === key)
+
+		if (key !== undefined && !selected)
+			throw new Error(`Key "${key}" is not in the key ring`)
+
+		// The active key may pass its cutoff while running
+		if (selected && isRetired(selected))
+			throw new Error(`Key "${selected.kid ?? key}" is retired`)
+
+		// A token signed with another algorithm than its key's would fail `verify`
+		if (selected && alg !== undefined && alg !== selected.alg)
+			throw new Error(
+				`Unable to sign with ${alg}, the selected key signs with ${selected.alg}`
+			)
+
+		return selected
+	}
+
+	const signToken = async (
+		signValue: SignPayload<Schema> | (JWTPayloadInput & ClaimType),
+		{ header, key, alg, dpop: dpopKey }: JWTSignOption = {}
+	) => {
+		const startedAt = performance.now()
+		const { nbf, exp, iat, ...data } = signValue
+
+		/**
+		 * @summary Constructs a JWT payload object from a given data source.
+		 *
+		 * @description
+		 * This constant assembles the final payload for a JWT by combining standard
+		 * RFC 7519 claims with any other custom data present in the `data` object.
+		 * * The initial properties (`aud`, `iss`, etc.) are explicitly defined for clarity,
+		 * while the spread operator (`...data`) ensures all other properties from the
+		 * source are included.
+		 * * @warning
+		 * The type assertion (`as ...`) is used to satisfy TypeScript but has significant
+		 * trade-offs. By including `Record<string, unknown>`, the object effectively loses
+		 * strong type safety for custom claims, treating them all as potentially unknown.
+		 * This approach should be handled with care, as it bypasses stricter type checking
+		 * in favor of flexibility.
+		 */
+		const JWTPayload = {
+			/**
+			 * Audience (aud): Identifies the recipients that the JWT is intended for.
+			 */
+			aud: data.aud ?? defaultValues.aud,
+
+			/**
+			 * Issuer (iss): Identifies the principal that issued the JWT.
+			 */
+			iss: data.iss ?? defaultValues.iss,
+
+			/**
+			 * JWT ID (jti): Provides a unique identifier for the JWT.
+			 */
+			jti:
+				data.jti ??
+				defaultValues.jti ??
+				(generateJti ? crypto.randomUUID() : undefined),
+
+			/**
+			 * Subject (sub): Identifies the principal that is the subject of the JWT.
+			 */
+			sub: data.sub ?? defaultValues.sub,
+
+			// Includes all other properties from the data source, both standard and custom,
+			// excluding standard JWT claims like `nbf`, `exp` and `iat`.
+			...data,
+
+			/**
+			 * Confirmation (cnf): Thumbprint of the DPoP key the token is bound to.
+			 */
+			...(dpopKey && { cnf: { jkt: await thumbprintOf(dpopKey) } })
+		} as
+			| Omit<JWTPayloadInput, NormalizedClaim>
+			| Record<string, unknown>
+
+		if (header && ('alg' in header || 'kid' in header))
+			throw new Error(
+				'Set alg and kid with the alg and key options, not the header'
+			)
+
+		const selectedKey = await selectKey(key, alg, header, JWTPayload)
+		const signingKey = selectedKey?.signingKey
+		if (signed && !signingKey)
+			throw new Error(
+				key !== undefined
+					? 'Unable to sign without secret or privateKey of the selected key'
+					: secretResolver
+						? 'Unable to sign without a secret resolved for the token'
+						: 'Unable to sign without secret or privateKey, the plugin is configured to verify only'
+			)
+
+		/**
+		 * @summary Creates the JWS (JSON Web Signature) header object.
+		 *
+		 * @description
+		 * This constant builds the header part of the JWT, populating it with values
+		 * from a `defaultValues` source object.
+		 *
+		 * It ensures essential fields have safe defaults by using the nullish
+		 * coalescing operator (`??`):
+		 * - `alg` (Algorithm) defaults to 'HS256' if not provided.
+		 * - `typ` (Type) defaults to 'JWT' if not provided.
+		 *
+		 * `alg` and `kid` are taken from the selected key, the active key of the
+		 * key ring by default. The per-call header can't set them.
+		 *
+		 * The final object is type-asserted as `JWTHeaderParameters` to align with
+		 * the expected JWS header structure.
+		 *
+		 * @property alg - The signing algorithm (e.g., 'HS256', 'RS256').
+		 * @property [b64] - Indicates if the payload is Base64url-encoded.
+		 * @property [crit] - A list of critical header parameters that must be understood.
+		 * @property [cty] - The content type of the payload.
+		 * @property [jku] - URL for the JSON Web Key Set.
+		 * @property [jwk] - The JSON Web Key corresponding to the key used to sign.
+		 * @property [kid] - A hint indicating which key was used to sign the JWT.
+		 * @property typ - The type of the token, typically 'JWT'.
+		 * @property [x5c] - The X.509 certificate chain.
+		 * @property [x5t] - The X.509 certificate SHA-1 thumbprint.
+		 * @property [x5u] - URL for the X.509 certificate chain.
+		 */
+		const JWTHeader = {
+			alg: alg ?? selectedKey?.alg,
+			b64: defaultValues.b64,
+			crit: defaultValues.crit,
+			cty: defaultValues.cty,
+			jku: defaultValues.jku,
+			jwk: defaultValues.jwk,
+			kid: selectedKey?.kid,
+			typ: defaultValues.typ ?? 'JWT',
+			x5c: defaultValues.x5c,
+			x5t: defaultValues.x5t,
+			x5u: defaultValues.x5u,
+			...header
+		} as JWTHeaderParameters
+
+		// Reject tokens that would fail verification, the parsed output is not signed
+		if (validatePayload) await validatePayload(JWTPayload)
+
+		let jwt: SignJWT | EncryptJWT = signed
+			? new SignJWT({ ...JWTPayload }).setProtectedHeader({
+					alg: JWTHeader.alg!,
+					...JWTHeader
+				})
+			: new EncryptJWT({ ...JWTPayload }).setProtectedHeader(
+					encryptor!.header(JWTHeader)
+				)
+
+		// Define 'nbf' (Not Before) if a value exists in either data or defaults.
+		// The value from 'data' has priority over 'defaultValues'.
+		const setNbf = 'nbf' in signValue ? nbf : defaultValues.nbf
+		if (setNbf !== undefined) jwt = jwt.setNotBefore(setNbf)
+
+		// Define 'exp' (Expiration Time) using the same priority logic.
+		const setExp = 'exp' in signValue ? exp : defaultValues.exp
+		if (setExp !== undefined) jwt = jwt.setExpirationTime(setExp)
+
+		// Define 'iat' (Issued At). If a specific value is provided, use it.
+		// Otherwise, if the claim is just marked as true, set it to the current time.
+		const setIat = 'iat' in signValue ? iat : defaultValues.iat
+		if (setIat !== false) jwt = jwt.setIssuedAt(new Date())
+
+		let token =
+			jwt instanceof EncryptJWT
+				? await encryptor!.encryptJWT(jwt)
+				: await jwt.sign(await signingKey!())
+		if (jwt instanceof SignJWT && encryptor)
+			token = await encryptor.encrypt(token)
+
+		const duration = performance.now() - startedAt
+		emit(onSign, async () => ({
+			header: decodeProtectedHeader(token),
+			claims: pickClaims(await decodeToken(token)),
+			duration,
+			...(exposeTokenToHooks && { token })
+		}))
+
+		return token
+	}
+
+	// Configured claims are enforced on verify, per-call options take priority
+	const withVerifyDefaults = (
+		options: JWTVerifyOptions = {}
+	): JWTVerifyOptions => ({
+		...options,
+		issuer: options.issuer ?? defaultValues.iss,
+		audience: options.audience ?? defaultValues.aud,
+		typ: options.typ ?? defaultValues.typ,
+		clockTolerance: options.clockTolerance ?? clockTolerance,
+		maxTokenAge: options.maxTokenAge ?? maxTokenAge
+	})
+
+	const verifyToken = async (jwt: string, options: JWTVerifyOptions) => {
+		// The decryption key is fixed, only signing keys are tracked
+		if (!signed)
+			return {
+				...(await encryptor!.decryptJWT(jwt, options)),
+				key: undefined
+			}
+
+		const token = encryptor ? await encryptor.unwrap(jwt) : jwt
+
+		// Key the token is verified with, a cached token is only reused with the same key
+		let key: Awaited<ReturnType<typeof resolveKey>> | undefined
+		const result = await jwtVerify(
+			token,
+			async (header) =>
+				(key = await resolveKey(header, () => decodeJwt(token))),
+			options
+		)
+
+		return { ...result, key }
+	}
+
+	/**
+	 * Read the claims of a token without verifying it,
+	 * decrypting it first if `encryption` is set
+	 */
+	const decodeToken = (jwt: string) =>
+		encryptor ? encryptor.decode(jwt) : decodeJwt(jwt)
+
+	const extract = createExtractor(resolveTokenSources(extractor, dpop))
+
+	// Each token source is documented as a security scheme, any of them is accepted
+	const securitySchemeNames = securityScheme
+		? Object.keys(
+				jwtSecuritySchemes({ name: securityScheme, extractor, dpop })
+			)
+		: []
+
+	const verifyCache = verifyCacheOption
+		? createVerifyCache<{
+				result: Extract<
+					JWTVerifyResult<VerifiedPayload<Schema>>,
+					{ success: true }
+				>
+				claims: JWTPayload
+				key: unknown
+			}>(typeof verifyCacheOption === 'object' ? verifyCacheOption : {})
 		: undefined
 
-	return new Elysia({
+	// A cached token is dropped once it expires or exceeds `maxTokenAge`
+	const cachedUntil = ({ exp, iat }: JWTPayload) =>
+		Math.min(
+			exp ?? Number.POSITIVE_INFINITY,
+			maxTokenAge !== undefined && iat !== undefined
+				? iat + toSeconds(maxTokenAge)
+				: Number.POSITIVE_INFINITY
+		)
+
+	const checkToken = async (
+		jwt?: string,
+		options?: JWTVerifyOptions
+	): Promise<JWTVerifyResult<VerifiedPayload<Schema>>> => {
+		if (!jwt) return missingToken()
+
+		const verifyOptions = withVerifyDefaults(options)
+
+		// Per-call options may check other claims, so only default verification is cached
+		const cacheKey =
+			verifyCache && options === undefined
+				? await accessTokenHash(jwt)
+				: undefined
+
+		try {
+			let cached = cacheKey ? verifyCache!.get(cacheKey) : undefined
+
+			// The signing key may have been retired, rotated or removed from the key set since,
+			// the token is then verified again
+			if (cached && signed) {
+				const { claims } = cached
+				const current = await resolveKey(
+					cached.result.header,
+					() => claims
+				).catch(() => undefined)
+
+				if (current !== cached.key) {
+					verifyCache!.delete(cacheKey!)
+					cached = undefined
+				}
+			}
+
+			const { payload, protectedHeader, key } = cached
+				? {
+						payload: cached.claims,
+						protectedHeader: cached.result.header,
+						key: cached.key
+					}
+				: await verifyToken(jwt, verifyOptions)
+
+			// Refresh and one-time tokens can only be used with `refresh` and `oneTime.consume`
+			if (
+				(protectedHeader.typ === REFRESH_TOKEN_TYPE ||
+					protectedHeader.typ === ONE_TIME_TOKEN_TYPE) &&
+				verifyOptions.typ !== protectedHeader.typ
+			)
+				throw new errors.JWTClaimValidationFailed(
+					'unexpected "typ" JWT header value',
+					payload,
+					'typ',
+					'check_failed'
+				)
+
+			// Revocation is checked on every call, cached tokens included
+			if (revocationStore && (await revocationStore.isRevoked(payload)))
+				return {
+					success: false,
+					error: {
+						code: 'revoked',
+						message: 'Token was revoked'
+					}
+				}
+
+			if (cached)
+				return {
+					...cached.result,
+					payload: { ...cached.result.payload }
+				}
+
+			const result = {
+				success: true,
+				payload: (validatePayload
+					? await validatePayload(payload)
+					: payload) as VerifiedPayload<Schema>,
+				header: protectedHeader
+			} as const
+
+			if (cacheKey) {
+				verifyCache!.set(
+					cacheKey,
+					{ result, claims: payload, key },
+					cachedUntil(payload)
+				)
+
+				// The cached payload is shared, callers get their own copy
+				return { ...result, payload: { ...result.payload } }
+			}
+
+			return result
+		} catch (error) {
+			return {
+				success: false,
+				error: toVerifyError(error)
+			}
+		}
+	}
+
+	// Header and claims of a rejected token, if it can be decoded
+	const describeToken = async (jwt: string) => {
+		let header
+		try {
+			header = decodeProtectedHeader(jwt)
+		} catch {
+			return {}
+		}
+
+		try {
+			return { header, claims: pickClaims(await decodeToken(jwt)) }
+		} catch {
+			return { header }
+		}
+	}
+
+	const verifyResult = async (
+		jwt?: string,
+		options?: JWTVerifyOptions
+	): Promise<JWTVerifyResult<VerifiedPayload<Schema>>> => {
+		const startedAt = performance.now()
+		const result = await checkToken(jwt, options)
+		const duration = performance.now() - startedAt
+
+		const token = exposeTokenToHooks && jwt ? { token: jwt } : {}
+
+		if (result.success)
+			emit(onVerify, () => ({
+				header: result.header,
+				claims: pickClaims(result.payload as Record<string, unknown>),
+				duration,
+				...token
+			}))
+		else
+			emit(onVerifyError, async () => ({
+				error: result.error,
+				...(jwt && (await describeToken(jwt))),
+				duration,
+				...token
+			}))
+
+		return result
+	}
+
+	const {
+		accessTokenExp = '15m',
+		refreshTokenExp = '7d',
+		store: refreshTokenStore = createMemoryRefreshTokenStore()
+	} = refresh ?? {}
+
+	const {
+		exp: oneTimeTokenExp = '15m',
+		store: oneTimeTokenStore = createMemoryOneTimeTokenStore()
+	} = oneTime ?? {}
+
+	const {
+		proofMaxAge = '1m',
+		algorithms: dpopAlgorithms = defaultDPoPAlgorithms,
+		store: dpopStore = createMemoryOneTimeTokenStore(),
+		required: dpopRequired = false
+	}: DPoPOption = typeof dpop === 'object' ? dpop : {}
+
+	/**
+	 * Verify the DPoP proof of a request, for an access token if given
+	 *
+	 * A proof can only be used once
+	 */
+	const verifyDPoPProof = async (
+		request: Request,
+		accessToken?: string
+	): Promise<DPoPProofResult> => {
+		try {
+			const { jkt, jti, iat } = await verifyProof(
+				request.headers.get('dpop'),
+				{
+					method: request.method,
+					url: request.url,
+					accessToken,
+					algorithms: dpopAlgorithms,
+					maxTokenAge: proofMaxAge,
+					clockTolerance
+				}
+			)
+
+			if (!(await dpopStore.consume(jti, iat + toSeconds(proofMaxAge))))
+				return {
+					success: false,
+					error: {
+						code: 'reused',
+						message: 'DPoP proof was already used'
+					}
+				}
+
+			return { success: true, jkt }
+		} catch (error) {
+			return { success: false, error: toVerifyError(error) }
+		}
+	}
+
+	/**
+	 * Ensure a verified token is used by the holder of the key it's bound to
+	 *
+	 * Tokens not bound to a key are accepted as bearer tokens unless `required`
+	 */
+	const verifyBinding = async (
+		request: Request,
+		token: string,
+		payload: Record<string, unknown>,
+		required = dpopRequired
+	): Promise<
+		{ error: JWTVerifyError; invalidProof?: boolean } | undefined
+	> => {
+		const jkt = readClaim(payload, 'cnf.jkt')
+		const presented =
+			fromHeader(request.headers.get('authorization'), 'DPoP') === token
+
+		if (jkt === undefined) {
+			if (!required && !presented) return
+
+			return {
+				error: {
+					code: 'claim_mismatch',
+					message: 'Token is not bound to a DPoP key',
+					claim: 'cnf',
+					reason: 'missing'
+				}
+			}
+		}
+
+		// A bound token sent as a bearer token is likely stolen
+		if (!presented)
+			return {
+				error: {
+					code: 'claim_mismatch',
+					message:
+						'DPoP bound token must use the DPoP authorization scheme',
+					claim: 'cnf',
+					reason: 'check_failed'
+				}
+			}
+
+		const proof = await verifyDPoPProof(request, token)
+		if (!proof.success) return { error: proof.error, invalidProof: true }
+
+		if (proof.jkt !== jkt)
+			return {
+				error: {
+					code: 'claim_mismatch',
+					message: 'DPoP proof key does not match the token',
+					claim: 'cnf',
+					reason: 'check_failed'
+				},
+				invalidProof: true
+			}
+	}
+
+	const signPair = async (
+		payload: Record<string, unknown>,
+		family: string,
+		jti: string,
+		exp: number
+	): Promise<JWTTokenPair> => {
+		// Registered claims are set again for each token of the pair
+		const claims = { ...payload } as ClaimType
+		for (const claim of ['exp', 'nbf', 'iat', 'jti', 'fam'])
+			delete claims[claim]
+
+		return {
+			accessToken: await signToken({
+				...claims,
+				exp: now() + toSeconds(accessTokenExp)
+			}),
+			refreshToken: await signToken(
+				{ ...claims, jti, fam: family, exp },
+				{ header: { typ: REFRESH_TOKEN_TYPE } }
+			)
+		}
+	}
+
+	if (cookieOption)
+		assertCookiePrefix(cookieOption.name ?? 'auth', {
+			...defaultCookie,
+			...cookieOption
+		})
+
+	const slidingExp =
+		sliding?.exp ??
+		(typeof defaultValues.exp === 'string' ? defaultValues.exp : undefined)
+
+	if (sliding && slidingExp === undefined)
+		throw new Error(
+			'Sliding sessions require a relative exp, either on sliding or the plugin'
+		)
+
+	/**
+	 * Re-sign a token about to expire with a new `exp`,
+	 * keeping the session start in `auth_time`
+	 */
+	const renew = async (token: string, payload: JWTPayloadSpec) => {
+		const session = slideSession(payload, { ...sliding!, exp: slidingExp! })
+		if (!session) return
+
+		// Re-sign the claims as they were signed, not the schema output
+		const claims = { ...(await decodeToken(token)) } as ClaimType
+		for (const claim of ['exp', 'nbf', 'iat', 'jti']) delete claims[claim]
+
+		return {
+			token: await signToken({
+				...claims,
+				auth_time: session.authTime,
+				exp: session.exp
+			}),
+			exp: session.exp
+		}
+	}
+
+	const app = new Elysia({
 		name: '@elysiajs/jwt',
 		seed: {
 			name,
 			secret,
+			privateKey,
+			publicKey,
+			keys,
+			jwks,
+			publishJWKS,
+			oauth,
+			oidc,
+			extractor,
+			refresh,
+			oneTime,
+			dpop,
+			revocation,
+			verifyCache: verifyCacheOption,
+			encryption,
+			sliding,
+			cookie: cookieOption,
+			tenantClaim,
+			tenantCache,
+			scopeClaim,
+			roleClaim,
+			securityScheme,
+			clockTolerance,
+			maxTokenAge,
+			onSign,
+			onVerify,
+			onVerifyError,
+			exposeTokenToHooks,
 			schema,
 			...defaultValues
 		}
 	}).decorate(name as Name extends string ? Name : 'jwt', {
-		sign(
-			signValue: Prettify<
-				Omit<
-					UnwrapSchemaWithFallback<Schema, ClaimType>,
-					NormalizedClaim
-				> &
-					JWTPayloadInput
-			>
+		sign(signValue: SignPayload<Schema>, options?: JWTSignOption) {
+			return signToken(signValue, options)
+		},
+		async verify(
+			jwt?: string,
+			options?: JWTVerifyOptions
+		): Promise<VerifiedPayload<Schema> | false> {
+			const result = await verifyResult(jwt, options)
+
+			return result.success ? result.payload : false
+		},
+		/**
+		 * Verify a token, reporting why verification failed
+		 * instead of returning `false`
+		 *
+		 * ---
+		 * @example
+		 * ```typescript
+		 * const result = await jwt.verifyResult(token)
+		 *
+		 * if (!result.success)
+		 *     return status(401, result.error.code)
+		 *
+		 * return result.payload
+		 * ```
+		 */
+		verifyResult,
+		/**
+		 * Extract a token from the request using `extractor`,
+		 * reporting which source it was found in
+		 *
+		 * The token is not verified
+		 */
+		extract,
+		/**
+		 * Decode the payload of a token **without verifying it**
+		 *
+		 * The payload is untrusted, it may be forged, expired or not match `schema`.
+		 * Only use it to pick a verification path or for logging, never for authorization.
+		 * Encrypted tokens are decrypted, but the signature of a nested token is not verified
+		 *
+		 * Returns `undefined` if the token can't be decoded
+		 */
+		async decode(
+			jwt?: string
+		): Promise<Partial<DecodedPayload<Schema>> | undefined> {
+			if (!jwt) return
+
+			try {
+				return (await decodeToken(jwt)) as Partial<
+					DecodedPayload<Schema>
+				>
+			} catch {
+				return
+			}
+		},
+		/**
+		 * Decode the protected header of a token **without verifying it**,
+		 * eg. to read its `kid` or `alg`
+		 *
+		 * The header is untrusted, it may be forged.
+		 * Returns `undefined` if the token can't be decoded
+		 */
+		decodeHeader(jwt?: string): JWTHeaderParameters | undefined {
+			if (!jwt) return
+
+			try {
+				return decodeProtectedHeader(jwt) as JWTHeaderParameters
+			} catch {
+				return
+			}
+		},
+		/**
+		 * Sign a token and set it on a cookie, returning the token
+		 *
+		 * The cookie expires together with the token, and defaults to
+		 * `httpOnly`, `secure`, `sameSite: 'lax'` and `path: '/'`
+		 *
+		 * ---
+		 * @example
+		 * ```typescript
+		 * app.post('/sign-in', async ({ jwt, cookie, body }) => {
+		 *     await jwt.setCookie(cookie, { sub: body.username, exp: '7d' })
+		 * })
+		 * ```
+		 */
+		async setCookie(
+			cookie: CookieJar,
+			payload: SignPayload<Schema>,
+			options?: JWTCookieOption
 		) {
-			const { nbf, exp, iat, ...data } = signValue
+			const token = await signToken(payload)
+
+			writeCookie(cookie, token, (await decodeToken(token)).exp, {
+				...cookieOption,
+				...options
+			})
+
+			return token
+		},
+		/**
+		 * Verify the token of a cookie set by `setCookie`
+		 */
+		async readCookie(
+			cookie: CookieJar,
+			name = cookieOption?.name ?? 'auth'
+		): Promise<VerifiedPayload<Schema> | false> {
+			const value = cookie[name]?.value
+			const result = await verifyResult(
+				typeof value === 'string' ? value : undefined
+			)
+
+			return result.success ? result.payload : false
+		},
+		/**
+		 * Expire a cookie set by `setCookie`, eg. to sign out
+		 */
+		clearCookie(cookie: CookieJar, options?: JWTCookieOption) {
+			removeCookie(cookie, { ...cookieOption, ...options })
+		},
+		/**
+		 * Revoke a token, or a token `jti`, so `verify` rejects it
+		 *
+		 * The token is not verified, only its `jti` and `exp` claims are read
+		 */
+		async revoke(tokenOrJti: string) {
+			if (!revocationStore)
+				throw new Error(
+					'Unable to revoke token, revocation is not enabled'
+				)
+
+			// Signed tokens have 3 segments, encrypted tokens 5
+			const segments = tokenOrJti.split('.').length
+			if (segments !== 3 && segments !== 5)
+				return revocationStore.revoke(tokenOrJti, revokedUntil())
 
+			const { jti, exp } = await decodeToken(tokenOrJti)
+			if (!jti) throw new Error('Unable to revoke token without jti')
+
+			return revocationStore.revoke(jti, exp ?? revokedUntil())
+		},
+		/**
+		 * Revoke every token of a subject issued before `before`,
+		 * eg. to sign a user out of every device
+		 */
+		async revokeAllFor(sub: string, before = new Date()) {
+			if (!revocationStore)
+				throw new Error(
+					'Unable to revoke token, revocation is not enabled'
+				)
+
+			// Round up, so tokens issued within the same second are revoked
+			const revokedBefore = Math.ceil(before.getTime() / 1000)
+
+			return revocationStore.revokeSubject(
+				sub,
+				revokedBefore,
+				revokedUntil(revokedBefore)
+			)
+		},
+		/**
+		 * Drop the cached key of a tenant, or of every tenant if none is given,
+		 * eg. after rotating its secret or removing it
+		 */
+		invalidateTenant(tenant?: string) {
+			if (!secretResolver)
+				throw new Error(
+					'Unable to invalidate tenant, secret is not a resolver'
+				)
+
+			secretResolver.invalidate(tenant)
+		},
+		verifyCache: {
 			/**
-			 * @summary Creates the JWS (JSON Web Signature) header object.
-			 *
-			 * @description
-			 * This constant builds the header part of the JWT, populating it with values
-			 * from a `defaultValues` source object.
-			 *
-			 * It ensures essential fields have safe defaults by using the nullish
-			 * coalescing operator (`??`):
-			 * - `alg` (Algorithm) defaults to 'HS256' if not provided.
-			 * - `typ` (Type) defaults to 'JWT' if not provided.
-			 *
-			 * The final object is type-asserted as `JWTHeaderParameters` to align with
-			 * the expected JWS header structure.
-			 *
-			 * @property alg - The signing algorithm (e.g., 'HS256', 'RS256').
-			 * @property [b64] - Indicates if the payload is Base64url-encoded.
-			 * @property [crit] - A list of critical header parameters that must be understood.
-			 * @property [cty] - The content type of the payload.
-			 * @property [jku] - URL for the JSON Web Key Set.
-			 * @property [jwk] - The JSON Web Key corresponding to the key used to sign.
-			 * @property [kid] - A hint indicating which key was used to sign the JWT.
-			 * @property typ - The type of the token, typically 'JWT'.
-			 * @property [x5c] - The X.509 certificate chain.
-			 * @property [x5t] - The X.509 certificate SHA-1 thumbprint.
-			 * @property [x5u] - URL for the X.509 certificate chain.
+			 * Hits, misses and evictions of the verified token cache,
+			 * to tune its `max` size
 			 */
-			const JWTHeader = {
-				alg: defaultValues.alg ?? 'HS256',
-				b64: defaultValues.b64,
-				crit: defaultValues.crit,
-				cty: defaultValues.cty,
-				jku: defaultValues.jku,
-				jwk: defaultValues.jwk,
-				kid: defaultValues.kid,
-				typ: defaultValues.typ ?? 'JWT',
-				x5c: defaultValues.x5c,
-				x5t: defaultValues.x5t,
-				x5u: defaultValues.x5u
-			} as JWTHeaderParameters
-
+			stats(): VerifyCacheStats {
+				return (
+					verifyCache?.stats() ?? {
+						hits: 0,
+						misses: 0,
+						evictions: 0,
+						size: 0,
+						max: 0
+					}
+				)
+			},
 			/**
-			 * @summary Constructs a JWT payload object from a given data source.
-			 *
-			 * @description
-			 * This constant assembles the final payload for a JWT by combining standard
-			 * RFC 7519 claims with any other custom data present in the `data` object.
-			 * * The initial properties (`aud`, `iss`, etc.) are explicitly defined for clarity,
-			 * while the spread operator (`...data`) ensures all other properties from the
-			 * source are included.
-			 * * @warning
-			 * The type assertion (`as ...`) is used to satisfy TypeScript but has significant
-			 * trade-offs. By including `Record<string, unknown>`, the object effectively loses
-			 * strong type safety for custom claims, treating them all as potentially unknown.
-			 * This approach should be handled with care, as it bypasses stricter type checking
-			 * in favor of flexibility.
+			 * Drop every cached token, eg. after rotating keys by hand
 			 */
-			const JWTPayload = {
-				/**
-				 * Audience (aud): Identifies the recipients that the JWT is intended for.
-				 */
-				aud: data.aud ?? defaultValues.aud,
-
-				/**
-				 * Issuer (iss): Identifies the principal that issued the JWT.
-				 */
-				iss: data.iss ?? defaultValues.iss,
-
-				/**
-				 * JWT ID (jti): Provides a unique identifier for the JWT.
-				 */
-				jti: data.jti ?? defaultValues.jti,
-
-				/**
-				 * Subject (sub): Identifies the principal that is the subject of the JWT.
-				 */
-				sub: data.sub ?? defaultValues.sub,
-
-				// Includes all other properties from the data source, both standard and custom,
-				// excluding standard JWT claims like `nbf`, `exp` and `iat`.
-				...data
-			} as
-				| Omit<JWTPayloadInput, NormalizedClaim>
-				| Record<string, unknown>
-
-			let jwt = new SignJWT({ ...JWTPayload }).setProtectedHeader({
-				alg: JWTHeader.alg!,
-				...JWTHeader
+			clear() {
+				verifyCache?.clear()
+			}
+		},
+		/**
+		 * Sign a short-lived access token and a long-lived refresh token
+		 *
+		 * The refresh token can only be exchanged for a new pair with `refresh`
+		 */
+		async issuePair(payload: SignPayload<Schema>): Promise<JWTTokenPair> {
+			const family = crypto.randomUUID()
+			const jti = crypto.randomUUID()
+
+			const exp = now() + toSeconds(refreshTokenExp)
+			const pair = await signPair(payload, family, jti, exp)
+
+			await refreshTokenStore.create(family, jti, exp)
+
+			return pair
+		},
+		/**
+		 * Exchange a refresh token for a new access and refresh token pair
+		 *
+		 * A refresh token can only be used once, reusing it revokes
+		 * every refresh token issued from the same `issuePair`
+		 */
+		async refresh(
+			refreshToken?: string
+		): Promise<JWTRefreshResult<VerifiedPayload<Schema>>> {
+			const result = await verifyResult(refreshToken, {
+				typ: REFRESH_TOKEN_TYPE
 			})
+			if (!result.success) return result
+
+			// Re-sign the claims as they were signed, not the schema output
+			const claims = await decodeToken(refreshToken!)
+			const { jti, fam, exp } = claims
 
-			// Define 'nbf' (Not Before) if a value exists in either data or defaults.
-			// The value from 'data' has priority over 'defaultValues'.
-			const setNbf = 'nbf' in signValue ? nbf : defaultValues.nbf
-			if (setNbf !== undefined) jwt = jwt.setNotBefore(setNbf)
+			if (typeof jti !== 'string' || typeof fam !== 'string')
+				return {
+					success: false,
+					error: {
+						code: 'claim_mismatch',
+						message:
+							'Refresh token is missing "jti" or "fam" claim',
+						reason: 'missing'
+					}
+				}
 
-			// Define 'exp' (Expiration Time) using the same priority logic.
-			const setExp = 'exp' in signValue ? exp : defaultValues.exp
-			if (setExp !== undefined) jwt = jwt.setExpirationTime(setExp)
+			const next = crypto.randomUUID()
 
-			// Define 'iat' (Issued At). If a specific value is provided, use it.
-			// Otherwise, if the claim is just marked as true, set it to the current time.
-			const setIat = 'iat' in signValue ? iat : defaultValues.iat
-			if (setIat !== false) jwt = jwt.setIssuedAt(new Date())
+			// Sign before rotating, so a failed sign doesn't use up the refresh token
+			const pair = await signPair(claims, fam, next, exp!)
+			const rotation = await refreshTokenStore.rotate(fam, jti, next)
 
-			return jwt.sign(key)
+			if (rotation === 'reused') await refreshTokenStore.revoke(fam)
+
+			if (rotation !== 'rotated')
+				return {
+					success: false,
+					error: {
+						code: rotation,
+						message:
+							rotation === 'reused'
+								? 'Refresh token was already used, its family is revoked'
+								: 'Refresh token was revoked'
+					}
+				}
+
+			return {
+				success: true,
+				payload: result.payload,
+				...pair
+			}
 		},
-		async verify(
-			jwt?: string,
-			options?: JWTVerifyOptions
-		): Promise<
-			| (UnwrapSchemaWithFallback<Schema, ClaimType> &
-					Omit<JWTPayloadSpec, keyof UnwrapSchema<Schema, {}>>)
-			| false
-		> {
-			if (!jwt) return false
+		/**
+		 * Verify an ID token of the `oidc` provider
+		 *
+		 * Pass the `nonce`, `max_age` and `acr_values` of the authentication request,
+		 * and the access token or code issued along with the ID token
+		 */
+		async verifyIdToken(
+			idToken?: string,
+			options?: IDTokenVerifyOption
+		): Promise<JWTVerifyResult<IDTokenClaims>> {
+			if (!verifyIDToken)
+				throw new Error(
+					'Unable to verify ID token, oidc is not configured'
+				)
+
+			if (!idToken) return missingToken()
 
 			try {
-				const data: any = (
-					await (options
-						? jwtVerify(jwt, key, options)
-						: jwtVerify(jwt, key))
-				).payload
+				return {
+					success: true,
+					...(await verifyIDToken(idToken, options))
+				}
+			} catch (error) {
+				return { success: false, error: toVerifyError(error) }
+			}
+		},
+		/**
+		 * Verify a DPoP bound access token from `Authorization: DPoP <token>`,
+		 * along with the DPoP proof of the request
+		 */
+		async verifyDPoP(
+			request: Request,
+			options?: JWTVerifyOptions
+		): Promise<JWTVerifyResult<VerifiedPayload<Schema>>> {
+			const token = fromHeader(
+				request.headers.get('authorization'),
+				'DPoP'
+			)
 
-				if (validator && !validator.Check(data))
-					throw new ValidationError('JWT', validator, data)
+			const result = await verifyResult(token, options)
+			if (!result.success) return result
 
-				return data
-			} catch {
-				return false
+			const binding = await verifyBinding(
+				request,
+				token!,
+				result.payload as Record<string, unknown>,
+				true
+			)
+
+			return binding ? { success: false, error: binding.error } : result
+		},
+		/**
+		 * Verify the DPoP proof of a token request,
+		 * returning the thumbprint to bind tokens to with the `dpop` option of `sign`
+		 */
+		verifyDPoPProof(request: Request): Promise<DPoPProofResult> {
+			return verifyDPoPProof(request)
+		},
+		oneTime: {
+			/**
+			 * Sign a token usable once, for the given purpose only,
+			 * eg. `password-reset` or `email-verification`
+			 */
+			create(
+				purpose: string,
+				payload: SignPayload<Schema>,
+				exp: string | number = oneTimeTokenExp
+			) {
+				return signToken(
+					{
+						...payload,
+						purpose,
+						jti: crypto.randomUUID(),
+						exp: now() + toSeconds(exp)
+					},
+					{ header: { typ: ONE_TIME_TOKEN_TYPE } }
+				)
+			},
+			/**
+			 * Verify a one-time token of the given purpose and mark it as used
+			 *
+			 * Using the token again fails with `reused`
+			 */
+			async consume(
+				purpose: string,
+				token?: string
+			): Promise<JWTVerifyResult<VerifiedPayload<Schema>>> {
+				const result = await verifyResult(token, {
+					typ: ONE_TIME_TOKEN_TYPE
+				})
+				if (!result.success) return result
+
+				const { jti, exp, ...claims } =
+					result.payload as JWTPayloadSpec & { purpose?: unknown }
+
+				// Checked before consuming, a token used for another purpose stays valid
+				if (claims.purpose !== purpose)
+					return {
+						success: false,
+						error: {
+							code: 'claim_mismatch',
+							message: 'unexpected "purpose" claim value',
+							claim: 'purpose',
+							reason: 'check_failed'
+						}
+					}
+
+				if (typeof jti !== 'string' || exp === undefined)
+					return {
+						success: false,
+						error: {
+							code: 'claim_mismatch',
+							message:
+								'One-time token is missing "jti" or "exp" claim',
+							reason: 'missing'
+						}
+					}
+
+				if (!(await oneTimeTokenStore.consume(jti, exp)))
+					return {
+						success: false,
+						error: {
+							code: 'reused',
+							message: 'One-time token was already used'
+						}
+					}
+
+				return result
 			}
 		}
 	})
+
+	if (publishJWKS) {
+		if (!keyRing)
+			throw new Error(
+				'publishJWKS requires either secret, privateKey, publicKey or keys'
+			)
+
+		const {
+			path = '/.well-known/jwks.json',
+			maxAge = 600
+		}: PublishJWKSOption =
+			typeof publishJWKS === 'object'
+				? publishJWKS
+				: typeof publishJWKS === 'string'
+					? { path: publishJWKS }
+					: {}
+
+		const getPublicKeySet = createPublicKeySet(keyRing.keys)
+
+		app.get(path, async ({ set }) => {
+			set.headers['cache-control'] = `public, max-age=${maxAge}`
+
+			return getPublicKeySet()
+		})
+	}
+
+	if (oauth) {
+		const {
+			authenticateClient,
+			introspection = true,
+			revocation: revocationEndpoint = true,
+			introspectionResponse = defaultIntrospectionResponse
+		} = oauth
+
+		const authenticate = async (authorization?: string) => {
+			const client = readClientCredentials(authorization)
+			if (client && (await authenticateClient(client))) return client
+		}
+
+		if (introspection)
+			app.post(
+				typeof introspection === 'string'
+					? introspection
+					: '/oauth/introspect',
+				async ({ headers, body, set, status }) => {
+					if (!(await authenticate(headers.authorization))) {
+						set.headers['www-authenticate'] = 'Basic'
+
+						return status(401, { error: 'invalid_client' })
+					}
+
+					const token = readTokenParameter(body)
+					if (!token) return status(400, { error: 'invalid_request' })
+
+					const result = await verifyResult(token)
+
+					// Inactive tokens don't disclose why they're inactive
+					if (!result.success) return { active: false }
+
+					return {
+						...(await introspectionResponse(
+							result.payload as Record<string, unknown>,
+							result.header
+						)),
+						active: true
+					}
+				}
+			)
+
+		if (revocationEndpoint)
+			app.post(
+				typeof revocationEndpoint === 'string'
+					? revocationEndpoint
+					: '/oauth/revoke',
+				async ({ headers, body, set, status }) => {
+					const client = await authenticate(headers.authorization)
+					if (!client) {
+						set.headers['www-authenticate'] = 'Basic'
+
+						return status(401, { error: 'invalid_client' })
+					}
+
+					const token = readTokenParameter(body)
+					if (!token) return status(400, { error: 'invalid_request' })
+
+					// Invalid tokens are ignored, there is nothing left to revoke
+					const refreshResult = await verifyResult(token, {
+						typ: REFRESH_TOKEN_TYPE
+					})
+					if (refreshResult.success) {
+						const payload = refreshResult.payload as Record<
+							string,
+							unknown
+						>
+						if (!isIssuedTo(payload, client))
+							return status(400, { error: 'unauthorized_client' })
+
+						if (typeof payload.fam === 'string')
+							await refreshTokenStore.revoke(payload.fam)
+
+						return
+					}
+
+					const result = await verifyResult(token)
+					if (!result.success) return
+
+					const { jti, exp, ...payload } =
+						result.payload as JWTPayloadSpec &
+							Record<string, unknown>
+					if (!isIssuedTo(payload, client))
+						return status(400, { error: 'unauthorized_client' })
+
+					if (!revocationStore || !jti)
+						return status(400, { error: 'unsupported_token_type' })
+
+					await revocationStore.revoke(jti, exp ?? revokedUntil())
+				}
+			)
+	}
+
+	return (
+		app
+			/**
+			 * Protect a route with `{ [name]: true }`
+			 *
+			 * Verify the token found by `extractor` and inject its `payload`,
+			 * `scopes` and `roles`, or respond with 401 and a `WWW-Authenticate` challenge
+			 *
+			 * Pass `requireScopes` or `requireRoles` to respond with 403
+			 * when the token lacks them
+			 *
+			 * Guarded routes document their 401 and 403 responses,
+			 * and reference `securityScheme` in their OpenAPI documentation if set
+			 *
+			 * ---
+			 * @example
+			 * ```typescript
+			 * app
+			 *     .use(jwt({ secret: process.env.JWT_SECRET }))
+			 *     .get('/profile', ({ payload }) => payload.sub, {
+			 *         jwt: true
+			 *     })
+			 *     .get('/orders', ({ scopes }) => scopes, {
+			 *         jwt: { requireScopes: ['orders:read'] }
+			 *     })
+			 * ```
+			 */
+			.macro(
+				name as Name extends string ? Name : 'jwt',
+				(option: true | JWTRouteOption) => {
+					const { requireScopes, requireRoles }: JWTRouteOption =
+						option === true ? {} : option
+
+					return {
+						...(securityScheme !== false && {
+							detail: documentRoute(securitySchemeNames, {
+								requireScopes,
+								requireRoles
+							})
+						}),
+						// Destructured in the body, Elysia doesn't infer the context used
+						// from a parameter destructuring spanning multiple lines
+						async resolve(context) {
+							const { headers, cookie, query, set, status } =
+								context
+
+							const extracted = await extract({
+								headers,
+								cookie,
+								query
+							})
+							const result = await verifyResult(extracted?.token)
+
+							if (!result.success) {
+								set.headers['www-authenticate'] = challenge(
+									result.error
+								)
+
+								return status(401, 'Unauthorized')
+							}
+
+							const claims = result.payload as Record<
+								string,
+								unknown
+							>
+
+							if (dpop) {
+								const binding = await verifyBinding(
+									context.request,
+									extracted!.token,
+									claims
+								)
+
+								if (binding) {
+									set.headers['www-authenticate'] =
+										dpopChallenge(
+											binding.error,
+											dpopAlgorithms,
+											binding.invalidProof
+										)
+
+									return status(401, 'Unauthorized')
+								}
+							}
+							const scopes = toClaimList(
+								readClaim(claims, scopeClaim)
+							)
+							const roles = toClaimList(
+								readClaim(claims, roleClaim)
+							)
+
+							if (
+								!meetsRequirement(scopes, requireScopes) ||
+								!meetsRequirement(roles, requireRoles)
+							) {
+								set.headers['www-authenticate'] =
+									insufficientScope(
+										requireScopes &&
+											requiredValues(requireScopes)
+									)
+
+								return status(403, 'Forbidden')
+							}
+
+							if (sliding && extracted) {
+								const renewed = await renew(
+									extracted.token,
+									result.payload
+								)
+
+								if (renewed && extracted.source === 'cookie')
+									writeCookie(
+										cookie,
+										renewed.token,
+										renewed.exp,
+										{
+											...cookieOption,
+											...sliding.cookie,
+											name: extracted.name
+										}
+									)
+								else if (renewed)
+									set.headers[
+										sliding.header ?? 'x-access-token'
+									] = renewed.token
+							}
+
+							return { payload: result.payload, scopes, roles }
+						}
+					}
+				}
+			)
+	)
 }
 
 export default jwt
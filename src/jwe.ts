@@ -0,0 +1,187 @@
+import {
+	CompactEncrypt,
+	compactDecrypt,
+	decodeJwt,
+	errors,
+	jwtDecrypt,
+	type CompactJWEHeaderParameters,
+	type EncryptJWT,
+	type JWTClaimVerificationOptions,
+	type JWTPayload
+} from 'jose'
+
+import { createKey, type JWTKeyMaterial } from './keys'
+
+/**
+ * Encrypt tokens as compact JWE, so their claims can't be read by the client
+ *
+ * With `dir`, `secret` is the content encryption key itself.
+ * With `RSA-OAEP-256` or `ECDH-ES`, tokens are encrypted with `publicKey`
+ * and decrypted with `privateKey`
+ */
+export interface JWEOption extends JWTKeyMaterial {
+	/**
+	 * JWE "alg" (Key Management Algorithm)
+	 *
+	 * @default 'dir'
+	 */
+	alg?: 'dir' | 'RSA-OAEP-256' | 'ECDH-ES' | (string & {})
+
+	/**
+	 * JWE "enc" (Content Encryption Algorithm)
+	 *
+	 * @default 'A256GCM'
+	 */
+	enc?: string
+
+	/**
+	 * JWE "kid" (Key ID) stamped into the header of encrypted tokens
+	 */
+	kid?: string
+
+	/**
+	 * Sign the token first, then encrypt the signed token as a nested JWT
+	 *
+	 * Requires the plugin `secret`, `privateKey` or `keys` to sign,
+	 * otherwise claims are only encrypted
+	 *
+	 * @see {@link https://www.rfc-editor.org/rfc/rfc7519#section-5.2 RFC7519#section-5.2}
+	 * @default false
+	 */
+	nested?: boolean
+}
+
+// Key size in bytes of each content encryption algorithm, required by `dir`
+const contentKeyLength: Record<string, number> = {
+	A128GCM: 16,
+	A192GCM: 24,
+	A256GCM: 32,
+	'A128CBC-HS256': 32,
+	'A192CBC-HS384': 48,
+	'A256CBC-HS512': 64
+}
+
+const decoder = new TextDecoder()
+
+export const createEncryption = ({
+	alg = 'dir',
+	enc = 'A256GCM',
+	kid,
+	nested = false,
+	secret,
+	privateKey,
+	publicKey
+}: JWEOption) => {
+	if (alg === 'dir') {
+		if (!secret)
+			throw new Error(
+				'"dir" encryption requires a secret, not a key pair'
+			)
+
+		const length =
+			typeof secret === 'string'
+				? new TextEncoder().encode(secret).byteLength
+				: secret instanceof Uint8Array
+					? secret.byteLength
+					: undefined
+
+		if (
+			length !== undefined &&
+			contentKeyLength[enc] !== undefined &&
+			length !== contentKeyLength[enc]
+		)
+			throw new Error(
+				`"${enc}" requires a ${contentKeyLength[enc]} bytes secret, got ${length} bytes`
+			)
+	}
+
+	const key = createKey({ kid, alg, secret, privateKey, publicKey })
+	if (!key) throw new Error("Encryption key can't be empty")
+
+	const decryptOptions = {
+		keyManagementAlgorithms: [alg],
+		contentEncryptionAlgorithms: [enc]
+	}
+
+	// For asymmetric keys, the private half decrypts and the public half encrypts
+	const decryptionKey = () => {
+		if (!key.signingKey)
+			throw new Error(
+				'Unable to decrypt without secret or privateKey, the encryption is configured to encrypt only'
+			)
+
+		return key.signingKey()
+	}
+
+	const decrypt = async (token: string) =>
+		compactDecrypt(token, await decryptionKey(), decryptOptions)
+
+	/**
+	 * Decrypt a nested JWT, returning the signed token
+	 */
+	const unwrap = async (token: string) => {
+		const { plaintext, protectedHeader } = await decrypt(token)
+
+		if (protectedHeader.cty?.toUpperCase() !== 'JWT')
+			throw new errors.JWTInvalid(
+				'Encrypted token does not contain a nested JWT'
+			)
+
+		return decoder.decode(plaintext)
+	}
+
+	return {
+		nested,
+		/**
+		 * Header of an encrypted token, `typ` and `cty` are carried over
+		 * from the JWS header
+		 */
+		header: ({
+			typ,
+			cty
+		}: Pick<
+			CompactJWEHeaderParameters,
+			'typ' | 'cty'
+		>): CompactJWEHeaderParameters => ({ alg, enc, kid, typ, cty }),
+		/**
+		 * Encrypt a signed token as a nested JWT
+		 */
+		async encrypt(token: string) {
+			return new CompactEncrypt(new TextEncoder().encode(token))
+				.setProtectedHeader({ alg, enc, kid, cty: 'JWT' })
+				.encrypt(await key.verifyingKey())
+		},
+		async encryptJWT(jwt: EncryptJWT) {
+			return jwt.encrypt(await key.verifyingKey())
+		},
+		/**
+		 * Decrypt a token and validate its claims
+		 */
+		async decryptJWT(token: string, options?: JWTClaimVerificationOptions) {
+			return jwtDecrypt(token, await decryptionKey(), {
+				...options,
+				...decryptOptions
+			})
+		},
+		unwrap,
+		/**
+		 * Decrypt a token without validating its claims, or the signature of a nested JWT
+		 */
+		async decode(token: string): Promise<JWTPayload> {
+			if (nested) return decodeJwt(await unwrap(token))
+
+			try {
+				return JSON.parse(
+					decoder.decode((await decrypt(token)).plaintext)
+				)
+			} catch (error) {
+				if (error instanceof SyntaxError)
+					throw new errors.JWTInvalid(
+						'JWT Claims Set must be a JSON object'
+					)
+
+				throw error
+			}
+		}
+	}
+}
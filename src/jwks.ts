@@ -0,0 +1,232 @@
+import {
+	createLocalJWKSet,
+	errors,
+	exportJWK,
+	type CryptoKey,
+	type JSONWebKeySet,
+	type JWK,
+	type JWSHeaderParameters,
+	type KeyObject
+} from 'jose'
+
+import { isRetired, stripPrivateMembers, type ResolvedKey } from './keys'
+import { toSeconds } from './time'
+
+/**
+ * Custom function to retrieve a JSON Web Key Set,
+ * eg. from a database, a secret manager or with a custom HTTP client
+ */
+export type JWKSFetcher = () => Promise<JSONWebKeySet>
+
+export interface JWKSOption {
+	/**
+	 * URL of the JSON Web Key Set, eg. `https://example.com/.well-known/jwks.json`
+	 */
+	url?: string | URL
+
+	/**
+	 * Custom function to retrieve the key set, takes priority over `url`
+	 */
+	fetch?: JWKSFetcher
+
+	/**
+	 * Additional headers to send when fetching `url`
+	 */
+	headers?: Record<string, string>
+
+	/**
+	 * Duration the key set is cached before being refetched, as seconds or a relative time
+	 *
+	 * @default '10m'
+	 */
+	ttl?: string | number
+
+	/**
+	 * Minimum duration between two fetches, as seconds or a relative time.
+	 *
+	 * An unknown `kid` triggers a refetch, once per cooldown
+	 *
+	 * @default '30s'
+	 */
+	cooldown?: string | number
+
+	/**
+	 * Duration before a request to `url` is aborted, as seconds or a relative time
+	 *
+	 * @default '5s'
+	 */
+	timeout?: string | number
+}
+
+export type JWKSSource = string | URL | JWKSFetcher | JWKSOption
+
+export interface RemoteKeySet {
+	/**
+	 * Key resolver passed to `jwtVerify`
+	 */
+	resolve(header: JWSHeaderParameters): Promise<CryptoKey>
+
+	/**
+	 * Force the key set to be refetched
+	 */
+	reload(): Promise<void>
+}
+
+const isJWKS = (value: unknown): value is JSONWebKeySet =>
+	typeof value === 'object' &&
+	value !== null &&
+	Array.isArray((value as JSONWebKeySet).keys)
+
+const normalizeSource = (source: JWKSSource): JWKSOption =>
+	typeof source === 'function'
+		? { fetch: source }
+		: typeof source === 'string' || source instanceof URL
+			? { url: source }
+			: source
+
+export const createRemoteKeySet = (source: JWKSSource): RemoteKeySet => {
+	const {
+		url,
+		fetch: fetcher,
+		headers,
+		ttl = '10m',
+		cooldown = '30s',
+		timeout = '5s'
+	} = normalizeSource(source)
+
+	if (!url && !fetcher) throw new Error('JWKS requires either url or fetch')
+
+	// Compared with `Date.now()`, so kept in milliseconds
+	const ttlMs = toSeconds(ttl) * 1000
+	const cooldownMs = toSeconds(cooldown) * 1000
+
+	const load: JWKSFetcher =
+		fetcher ??
+		(async () => {
+			const response = await fetch(url!, {
+				headers: { accept: 'application/json', ...headers },
+				signal: AbortSignal.timeout(toSeconds(timeout) * 1000)
+			})
+
+			if (!response.ok)
+				throw new errors.JOSEError(
+					`Expected 200 OK from the JWKS endpoint, got ${response.status}`
+				)
+
+			return (await response.json()) as JSONWebKeySet
+		})
+
+	let keySet: ReturnType<typeof createLocalJWKSet> | undefined
+	let fetchedAt = 0
+	let attemptedAt = 0
+	let pending: Promise<void> | undefined
+
+	const reload = () =>
+		(pending ??= (async () => {
+			attemptedAt = Date.now()
+
+			try {
+				const jwks = await load()
+				if (!isJWKS(jwks))
+					throw new errors.JWKSInvalid('JSON Web Key Set malformed')
+
+				keySet = createLocalJWKSet(jwks)
+				fetchedAt = Date.now()
+			} finally {
+				pending = undefined
+			}
+		})())
+
+	// Refetch within cooldown, falling back to the stale key set if the fetch fails
+	const refresh = async () => {
+		if (!pending && Date.now() - attemptedAt < cooldownMs) return
+
+		try {
+			await reload()
+		} catch (error) {
+			if (!keySet) throw error
+		}
+	}
+
+	return {
+		reload,
+		async resolve(header) {
+			if (!keySet || Date.now() - fetchedAt >= ttlMs) await refresh()
+			if (!keySet) throw new errors.JWKSNoMatchingKey()
+
+			try {
+				return await keySet(header)
+			} catch (error) {
+				if (!(error instanceof errors.JWKSNoMatchingKey)) throw error
+
+				// Unknown `kid` might be a newly rotated key
+				const previous = keySet
+				await refresh()
+				if (keySet === previous) throw error
+
+				return keySet(header)
+			}
+		}
+	}
+}
+
+export interface PublishJWKSOption {
+	/**
+	 * Path to serve the JSON Web Key Set on
+	 *
+	 * @default '/.well-known/jwks.json'
+	 */
+	path?: string
+
+	/**
+	 * Duration in seconds verifiers may cache the key set, sent as `Cache-Control`
+	 *
+	 * @default 600 (10 minutes)
+	 */
+	maxAge?: number
+}
+
+/**
+ * Export the public half of a key as a JWK.
+ *
+ * Symmetric keys have no public half and are never exported
+ */
+export const toPublicJWK = async ({
+	kid,
+	alg,
+	verifyingKey
+}: ResolvedKey): Promise<JWK | undefined> => {
+	const key = await verifyingKey()
+	if (key instanceof Uint8Array) return
+
+	const jwk =
+		'kty' in key ? key : await exportJWK(key as CryptoKey | KeyObject)
+	if (jwk.kty === 'oct') return
+
+	return {
+		...stripPrivateMembers(jwk),
+		kid: kid ?? jwk.kid,
+		alg,
+		use: 'sig'
+	}
+}
+
+/**
+ * Create the JSON Web Key Set served on the published route,
+ * omitting keys past their `verifyUntil` cutoff
+ */
+export const createPublicKeySet = (keys: ResolvedKey[]) => {
+	let exported: Promise<[ResolvedKey, JWK | undefined][]> | undefined
+
+	return async (): Promise<JSONWebKeySet> => {
+		exported ??= Promise.all(
+			keys.map(async (key) => [key, await toPublicJWK(key)] as const)
+		) as Promise<[ResolvedKey, JWK | undefined][]>
+
+		return {
+			keys: (await exported)
+				.filter(([key, jwk]) => jwk && !isRetired(key))
+				.map(([, jwk]) => jwk!)
+		}
+	}
+}
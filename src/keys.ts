@@ -0,0 +1,544 @@
+import {
+	errors,
+	exportJWK,
+	importJWK,
+	importPKCS8,
+	importSPKI,
+	importX509,
+	type CryptoKey,
+	type JWK,
+	type KeyObject,
+	type JWSHeaderParameters
+} from 'jose'
+
+/**
+ * Key material accepted by the plugin.
+ *
+ * Strings are treated as PEM encoded PKCS#8, SPKI or X.509 when they start
+ * with `-----BEGIN`, otherwise as an HMAC secret
+ */
+export type JWTSecret = string | Uint8Array | CryptoKey | JWK | KeyObject
+
+export type KeyMaterial = Exclude<JWTSecret, string>
+
+/**
+ * Key material of a single key, either as a `secret`,
+ * or as a `privateKey` and `publicKey` pair
+ */
+export interface JWTKeyMaterial {
+	/**
+	 * Symmetric secret, or a private key used to sign and verify
+	 */
+	secret?: JWTSecret
+
+	/**
+	 * Private key used by `sign`
+	 *
+	 * The public key is derived from it if `publicKey` is not provided
+	 */
+	privateKey?: JWTSecret
+
+	/**
+	 * Public key used by `verify`
+	 *
+	 * Provide it alone to verify tokens without holding signing material
+	 */
+	publicKey?: JWTSecret
+}
+
+/**
+ * A single key inside of a key ring.
+ *
+ * Each key is identified by its `kid`, which is stamped into the header of
+ * tokens signed with it, and used to select the key back when verifying.
+ */
+export interface JWTKey extends JWTKeyMaterial {
+	/**
+	 * JWK "kid" (Key ID)
+	 *
+	 * @see {@link https://www.rfc-editor.org/rfc/rfc7515#section-4.1.4 RFC7515#section-4.1.4}
+	 */
+	kid: string
+
+	/**
+	 * Algorithm used with this key.
+	 *
+	 * Falls back to the plugin `alg`, then `HS256`
+	 */
+	alg?: string
+
+	/**
+	 * Mark the key used by `sign`.
+	 *
+	 * At most one key can be active, defaults to the first key in the ring
+	 */
+	active?: boolean
+
+	/**
+	 * Cutoff after which the key is no longer accepted by `verify`,
+	 * as a Date, a date string or a Unix timestamp in seconds like `exp`.
+	 *
+	 * Keep a retired key in the ring until tokens signed with it expire,
+	 * so rotating a key doesn't sign every user out at once.
+	 */
+	verifyUntil?: Date | number | string
+}
+
+export interface ResolvedKey {
+	kid?: string
+	alg: string
+	/**
+	 * Algorithms accepted by `verify`, any algorithm supported by the key if not set
+	 */
+	algorithms?: string[]
+	/**
+	 * Timestamp in milliseconds
+	 */
+	verifyUntil?: number
+	/**
+	 * Key used by `sign`, not set for verify-only keys
+	 */
+	signingKey?: () => Promise<KeyMaterial>
+	/**
+	 * Key used by `verify`, the public half for asymmetric keys
+	 */
+	verifyingKey: () => Promise<KeyMaterial>
+}
+
+export interface KeyRing {
+	/**
+	 * Key used by `sign`
+	 */
+	active: ResolvedKey
+
+	/**
+	 * Every key of the ring, including retired ones
+	 */
+	keys: ResolvedKey[]
+
+	/**
+	 * Find the key matching the token header, if any
+	 */
+	find(header: JWSHeaderParameters): ResolvedKey | undefined
+}
+
+type KeyType = 'oct' | 'RSA' | 'EC' | 'OKP'
+
+interface KeyDescription {
+	kty?: KeyType
+	crv?: string
+	type?: 'secret' | 'private' | 'public'
+}
+
+// Private and symmetric members of RSA, EC, OKP and oct keys
+const privateMembers = [
+	'd',
+	'p',
+	'q',
+	'dp',
+	'dq',
+	'qi',
+	'oth',
+	'k',
+	'key_ops',
+	'ext'
+]
+
+export const stripPrivateMembers = (jwk: JWK): JWK => {
+	const publicJWK: Record<string, unknown> = { ...jwk }
+	for (const member of privateMembers) delete publicJWK[member]
+
+	return publicJWK as JWK
+}
+
+const keyTypeOf = (alg: string): KeyType | undefined => {
+	if (alg.startsWith('HS')) return 'oct'
+	if (alg.startsWith('RS') || alg.startsWith('PS')) return 'RSA'
+	if (alg.startsWith('ES')) return 'EC'
+	if (alg === 'EdDSA' || alg === 'Ed25519') return 'OKP'
+}
+
+const curveOf: Record<string, string> = {
+	ES256: 'P-256',
+	ES384: 'P-384',
+	ES512: 'P-521'
+}
+
+// DER encoded object identifiers of SPKI and PKCS#8 algorithm identifiers
+const objectIdentifiers: [string, Partial<KeyDescription>][] = [
+	['06092a864886f70d010101', { kty: 'RSA' }],
+	['06092a864886f70d01010a', { kty: 'RSA' }],
+	['06072a8648ce3d0201', { kty: 'EC' }],
+	['06032b6570', { kty: 'OKP', crv: 'Ed25519' }],
+	['06082a8648ce3d030107', { crv: 'P-256' }],
+	['06052b81040022', { crv: 'P-384' }],
+	['06052b81040023', { crv: 'P-521' }]
+]
+
+const pemLabel = /^-----BEGIN ([A-Z0-9 ]+)-----/
+
+const isPEM = (secret: string) => secret.trimStart().startsWith('-----BEGIN')
+
+const describePEM = (pem: string): KeyDescription => {
+	const label = pem.trimStart().match(pemLabel)?.[1]
+
+	let type: KeyDescription['type']
+	switch (label) {
+		case 'PRIVATE KEY':
+			type = 'private'
+			break
+
+		case 'PUBLIC KEY':
+		case 'CERTIFICATE':
+			type = 'public'
+			break
+
+		case 'RSA PRIVATE KEY':
+		case 'EC PRIVATE KEY':
+			throw new Error(
+				`PEM "${label}" is not supported, convert it to PKCS#8 with "openssl pkcs8 -topk8 -nocrypt"`
+			)
+
+		default:
+			throw new Error(
+				`PEM "${label}" is not supported, expected PKCS#8, SPKI or X.509`
+			)
+	}
+
+	let der: string
+	try {
+		der = Array.from(atob(pem.replace(/-----[^-]+-----|\s/g, '')), (char) =>
+			char.charCodeAt(0).toString(16).padStart(2, '0')
+		).join('')
+	} catch {
+		throw new Error(`PEM "${label}" is not valid base64`)
+	}
+
+	const description: KeyDescription = { type }
+	for (const [oid, matched] of objectIdentifiers)
+		if (der.includes(oid)) Object.assign(description, matched)
+
+	return description
+}
+
+const describeKey = (secret: JWTSecret): KeyDescription => {
+	if (typeof secret === 'string')
+		return isPEM(secret)
+			? describePEM(secret)
+			: { kty: 'oct', type: 'secret' }
+
+	if (secret instanceof Uint8Array) return { kty: 'oct', type: 'secret' }
+
+	if ('kty' in secret)
+		return {
+			kty: secret.kty as KeyType,
+			crv: secret.crv,
+			type:
+				secret.kty === 'oct'
+					? 'secret'
+					: secret.d !== undefined
+						? 'private'
+						: 'public'
+		}
+
+	if ('algorithm' in secret) {
+		const algorithm = secret.algorithm as {
+			name: string
+			namedCurve?: string
+		}
+
+		return {
+			kty:
+				algorithm.name === 'HMAC'
+					? 'oct'
+					: algorithm.name.startsWith('RS')
+						? 'RSA'
+						: algorithm.name === 'ECDSA'
+							? 'EC'
+							: algorithm.name === 'Ed25519'
+								? 'OKP'
+								: undefined,
+			crv: algorithm.namedCurve,
+			type: secret.type
+		}
+	}
+
+	const { type, asymmetricKeyType } = secret as KeyObject & {
+		asymmetricKeyType?: string
+	}
+
+	return {
+		kty:
+			type === 'secret'
+				? 'oct'
+				: asymmetricKeyType?.startsWith('rsa')
+					? 'RSA'
+					: asymmetricKeyType === 'ec'
+						? 'EC'
+						: asymmetricKeyType === 'ed25519'
+							? 'OKP'
+							: undefined,
+		type: type as KeyDescription['type']
+	}
+}
+
+const assertAlgorithm = (
+	{ kty, crv }: KeyDescription,
+	alg: string,
+	label: string
+) => {
+	const expected = keyTypeOf(alg)
+
+	// Leave unknown algorithm and key type to jose
+	if (!expected || !kty) return
+
+	if (kty !== expected)
+		throw new Error(
+			`Key "${label}" is ${kty === 'oct' ? 'a symmetric secret' : `an ${kty} key`}, which can't be used with "${alg}"`
+		)
+
+	if (kty === 'EC' && crv && curveOf[alg] && crv !== curveOf[alg])
+		throw new Error(
+			`Key "${label}" uses curve ${crv}, but "${alg}" requires ${curveOf[alg]}`
+		)
+}
+
+const importKey = async (
+	secret: JWTSecret,
+	alg: string,
+	extractable = false
+): Promise<KeyMaterial> => {
+	if (typeof secret === 'string') {
+		if (!isPEM(secret)) return new TextEncoder().encode(secret)
+
+		const label = secret.trimStart().match(pemLabel)![1]
+
+		if (label === 'PRIVATE KEY')
+			return importPKCS8(secret, alg, { extractable })
+		if (label === 'PUBLIC KEY')
+			return importSPKI(secret, alg, { extractable: true })
+
+		return importX509(secret, alg, { extractable: true })
+	}
+
+	if (!(secret instanceof Uint8Array) && 'kty' in secret)
+		return importJWK(secret, alg, { extractable })
+
+	return secret
+}
+
+/**
+ * Derive the public half of a private key, symmetric keys are returned as is
+ */
+const toVerifyingKey = async (
+	key: KeyMaterial,
+	alg: string,
+	label: string
+): Promise<KeyMaterial> => {
+	if (key instanceof Uint8Array || 'kty' in key) return key
+
+	const keyLike = key as CryptoKey | KeyObject
+	if (keyLike.type !== 'private') return key
+
+	if ('extractable' in keyLike && !keyLike.extractable)
+		throw new Error(
+			`Unable to derive the public key of "${label}" from a non-extractable private key, provide publicKey`
+		)
+
+	return importJWK(stripPrivateMembers(await exportJWK(keyLike)), alg, {
+		extractable: true
+	}) as Promise<KeyMaterial>
+}
+
+const once = <T>(fn: () => Promise<T>) => {
+	let value: Promise<T> | undefined
+
+	return () => (value ??= fn())
+}
+
+export const isRetired = (key: ResolvedKey) =>
+	key.verifyUntil !== undefined && Date.now() > key.verifyUntil
+
+/**
+ * Ensure a found key can still verify the token, returning its key material
+ */
+export const assertKey = (
+	key: ResolvedKey,
+	header: JWSHeaderParameters
+): Promise<KeyMaterial> => {
+	if (isRetired(key)) throw new errors.JWKSNoMatchingKey()
+
+	if (key.algorithms && !key.algorithms.includes(header.alg!))
+		throw new errors.JOSEAlgNotAllowed(
+			'"alg" (Algorithm) Header Parameter value not allowed'
+		)
+
+	return key.verifyingKey()
+}
+
+export const createKey = ({
+	kid,
+	alg,
+	algorithms,
+	verifyUntil,
+	secret,
+	privateKey,
+	publicKey
+}: JWTKeyMaterial &
+	Pick<ResolvedKey, 'kid' | 'alg' | 'algorithms' | 'verifyUntil'>):
+	ResolvedKey | undefined => {
+	const label = kid ?? alg
+
+	if (secret && privateKey)
+		throw new Error(`Key "${label}" can't have both secret and privateKey`)
+
+	const signing = privateKey ?? secret
+	if (!signing && !publicKey) return
+
+	const signingDescription = signing ? describeKey(signing) : undefined
+	if (signingDescription) {
+		assertAlgorithm(signingDescription, alg, label)
+
+		if (privateKey && signingDescription.type === 'public')
+			throw new Error(`privateKey of "${label}" is a public key`)
+	}
+
+	if (publicKey) {
+		const description = describeKey(publicKey)
+		assertAlgorithm(description, alg, label)
+
+		if (description.type !== 'public')
+			throw new Error(`publicKey of "${label}" is not a public key`)
+	}
+
+	const signingKey =
+		signing && signingDescription!.type !== 'public'
+			? once(() => importKey(signing, alg, !publicKey))
+			: undefined
+
+	const verifyingKey = once(() =>
+		publicKey
+			? importKey(publicKey, alg)
+			: signingKey
+				? signingKey().then((key) => toVerifyingKey(key, alg, label))
+				: importKey(signing!, alg)
+	)
+
+	// Import keys ahead of the first request, errors surface on use
+	signingKey?.().catch(() => {})
+	verifyingKey().catch(() => {})
+
+	return {
+		kid,
+		alg,
+		algorithms,
+		verifyUntil,
+		signingKey,
+		verifyingKey
+	}
+}
+
+export const createKeyRing = ({
+	secret,
+	privateKey,
+	publicKey,
+	keys,
+	alg = 'HS256',
+	kid,
+	remote = false
+}: JWTKeyMaterial & {
+	keys?: JWTKey[]
+	alg?: string
+	kid?: string
+	/**
+	 * Whether a remote key set verifies the tokens the local keys don't match
+	 */
+	remote?: boolean
+}): KeyRing | undefined => {
+	if (!keys?.length) {
+		const active = createKey({
+			kid,
+			alg,
+			algorithms: [alg],
+			secret,
+			privateKey,
+			publicKey
+		})
+		if (!active) return
+
+		// Without a configured `kid`, a single key verifies every token,
+		// unless a remote key set is there for tokens of other algorithms
+		return {
+			active,
+			keys: [active],
+			find: (header) => {
+				if (kid !== undefined && header.kid === kid) return active
+				if (kid !== undefined && header.kid !== undefined) return
+
+				if (remote && !active.algorithms?.includes(header.alg!)) return
+
+				return active
+			}
+		}
+	}
+
+	if (secret || privateKey || publicKey)
+		throw new Error(
+			"'keys' can't be used together with secret, privateKey or publicKey"
+		)
+
+	const ring = new Map<string, ResolvedKey>()
+
+	for (const key of keys) {
+		if (!key.kid) throw new Error('Every key in a key ring requires a kid')
+		if (ring.has(key.kid)) throw new Error(`Duplicate key id "${key.kid}"`)
+
+		const verifyUntil =
+			typeof key.verifyUntil === 'number'
+				? key.verifyUntil * 1000
+				: key.verifyUntil !== undefined
+					? new Date(key.verifyUntil).getTime()
+					: undefined
+
+		// An invalid date would never pass, keeping the key valid forever
+		if (Number.isNaN(verifyUntil))
+			throw new Error(
+				`verifyUntil of key "${key.kid}" is not a valid date: ${key.verifyUntil}`
+			)
+
+		const resolved = createKey({
+			kid: key.kid,
+			alg: key.alg ?? alg,
+			algorithms: [key.alg ?? alg],
+			verifyUntil,
+			secret: key.secret,
+			privateKey: key.privateKey,
+			publicKey: key.publicKey
+		})
+
+		if (!resolved)
+			throw new Error(`Secret of key "${key.kid}" can't be empty`)
+
+		ring.set(key.kid, resolved)
+	}
+
+	const actives = keys.filter((key) => key.active)
+	if (actives.length > 1)
+		throw new Error(
+			`Only one key can be active, found: ${actives.map((key) => key.kid).join(', ')}`
+		)
+
+	const active = ring.get((actives[0] ?? keys[0]).kid)!
+
+	// Tokens signed with a retired key would be rejected by `verify`
+	if (isRetired(active))
+		throw new Error(`Active key "${active.kid}" is past its verifyUntil`)
+
+	return {
+		active,
+		keys: [...ring.values()],
+		// Tokens without a `kid` predate the key ring, fall back to the active key
+		find: (header) =>
+			header.kid === undefined ? active : ring.get(header.kid)
+	}
+}
@@ -0,0 +1,122 @@
+import type { JWTHeaderParameters } from 'jose'
+
+import { fromHeader } from './extract'
+import type { MaybePromise } from './types'
+
+/**
+ * Credentials a client authenticated with to the OAuth endpoints
+ *
+ * - `basic`: `Authorization: Basic` with a client ID and secret
+ * - `bearer`: `Authorization: Bearer` with a token issued to the client
+ *
+ * @see {@link https://www.rfc-editor.org/rfc/rfc6749#section-2.3.1 RFC6749#section-2.3.1}
+ */
+export type OAuthClientCredentials =
+	| { type: 'basic'; clientId: string; clientSecret: string }
+	| { type: 'bearer'; token: string }
+
+/**
+ * Mount OAuth endpoints, so resource servers outside of the app
+ * can check and revoke tokens from `sign`
+ */
+export interface OAuthEndpointOption {
+	/**
+	 * Authenticate a client calling the endpoints, returning whether it's allowed
+	 */
+	authenticateClient(
+		credentials: OAuthClientCredentials
+	): MaybePromise<boolean>
+
+	/**
+	 * Mount a token introspection endpoint, pass a string to change the path
+	 *
+	 * Access tokens are checked with `verify`, other tokens are reported inactive
+	 *
+	 * @see {@link https://www.rfc-editor.org/rfc/rfc7662 RFC7662}
+	 * @default '/oauth/introspect'
+	 */
+	introspection?: boolean | string
+
+	/**
+	 * Mount a token revocation endpoint, pass a string to change the path
+	 *
+	 * Refresh tokens revoke their family, access tokens require `revocation`
+	 *
+	 * @see {@link https://www.rfc-editor.org/rfc/rfc7009 RFC7009}
+	 * @default '/oauth/revoke'
+	 */
+	revocation?: boolean | string
+
+	/**
+	 * Map the claims of an active token to the introspection response,
+	 * `active: true` is always added
+	 *
+	 * @default every claim, with `token_type` of `DPoP` or `Bearer`
+	 */
+	introspectionResponse?(
+		payload: Record<string, unknown>,
+		header: JWTHeaderParameters
+	): MaybePromise<Record<string, unknown>>
+}
+
+// Client ID and secret are form-urlencoded before being encoded as Basic credentials
+const formDecode = (value: string) =>
+	decodeURIComponent(value.replace(/\+/g, ' '))
+
+/**
+ * Read client credentials from an `Authorization` header
+ */
+export const readClientCredentials = (
+	authorization?: string | null
+): OAuthClientCredentials | undefined => {
+	const token = fromHeader(authorization, 'Bearer')
+	if (token) return { type: 'bearer', token }
+
+	const basic = fromHeader(authorization, 'Basic')
+	if (!basic) return
+
+	try {
+		const credentials = atob(basic)
+		const separator = credentials.indexOf(':')
+		if (separator === -1) return
+
+		return {
+			type: 'basic',
+			clientId: formDecode(credentials.slice(0, separator)),
+			clientSecret: formDecode(credentials.slice(separator + 1))
+		}
+	} catch {
+		return
+	}
+}
+
+export const defaultIntrospectionResponse = (
+	payload: Record<string, unknown>
+) => ({
+	...payload,
+	token_type:
+		(payload.cnf as { jkt?: unknown } | undefined)?.jkt !== undefined
+			? 'DPoP'
+			: 'Bearer'
+})
+
+/**
+ * Read the `token` parameter of an introspection or revocation request
+ */
+export const readTokenParameter = (body: unknown) => {
+	const token = (body as Record<string, unknown> | null)?.token
+
+	return typeof token === 'string' && token ? token : undefined
+}
+
+/**
+ * Whether a token can be revoked by a client,
+ * tokens with a `client_id` claim can only be revoked by that client
+ */
+export const isIssuedTo = (
+	payload: Record<string, unknown>,
+	client: OAuthClientCredentials
+) =>
+	client.type !== 'basic' ||
+	typeof payload.client_id !== 'string' ||
+	payload.client_id === client.clientId
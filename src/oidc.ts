@@ -0,0 +1,310 @@
+import {
+	base64url,
+	errors,
+	jwtVerify,
+	type JWTHeaderParameters,
+	type JWTPayload
+} from 'jose'
+
+import { createRemoteKeySet, type JWKSOption } from './jwks'
+import { now, toSeconds } from './time'
+
+/**
+ * Verify ID tokens of an OpenID Connect provider with `verifyIdToken`,
+ * loading the issuer and its keys from the provider's discovery document
+ *
+ * @see {@link https://openid.net/specs/openid-connect-core-1_0.html#IDTokenValidation OpenID Connect Core 1.0#3.1.3.7}
+ */
+export interface OIDCOption {
+	/**
+	 * Issuer of the provider, eg. `https://accounts.google.com`
+	 */
+	issuer: string
+
+	/**
+	 * Client ID of the app, expected in the `aud` claim
+	 */
+	clientId: string
+
+	/**
+	 * URL of the discovery document
+	 *
+	 * @default `${issuer}/.well-known/openid-configuration`
+	 */
+	discovery?: string | URL
+
+	/**
+	 * Algorithms accepted for ID tokens
+	 *
+	 * @default `id_token_signing_alg_values_supported` of the provider, or ['RS256']
+	 */
+	algorithms?: string[]
+
+	/**
+	 * Caching of the provider's JSON Web Key Set, its `url` is read from the discovery document
+	 */
+	jwks?: Omit<JWKSOption, 'url' | 'fetch'>
+
+	/**
+	 * Duration before a request to the discovery document is aborted,
+	 * as seconds or a relative time
+	 *
+	 * @default '5s'
+	 */
+	timeout?: string | number
+}
+
+/**
+ * Checks of a single ID token, depending on the authentication request
+ */
+export interface IDTokenVerifyOption {
+	/**
+	 * `nonce` sent in the authentication request
+	 */
+	nonce?: string
+
+	/**
+	 * `max_age` sent in the authentication request, as seconds or a relative time,
+	 * requires `auth_time` to be within it
+	 */
+	maxAge?: string | number
+
+	/**
+	 * Accepted `acr` values, eg. the `acr_values` of the authentication request
+	 */
+	acrValues?: string[]
+
+	/**
+	 * Access token issued along with the ID token, checked against `at_hash` if present
+	 */
+	accessToken?: string
+
+	/**
+	 * Authorization code issued along with the ID token, checked against `c_hash` if present
+	 */
+	code?: string
+}
+
+export interface IDTokenAddress {
+	formatted?: string
+	street_address?: string
+	locality?: string
+	region?: string
+	postal_code?: string
+	country?: string
+}
+
+/**
+ * Claims of an ID token, including the standard claims of the user
+ *
+ * @see {@link https://openid.net/specs/openid-connect-core-1_0.html#StandardClaims OpenID Connect Core 1.0#5.1}
+ */
+export interface IDTokenClaims {
+	iss: string
+	sub: string
+	aud: string | string[]
+	exp: number
+	iat: number
+	auth_time?: number
+	nonce?: string
+	acr?: string
+	amr?: string[]
+	azp?: string
+	at_hash?: string
+	c_hash?: string
+	sid?: string
+
+	name?: string
+	given_name?: string
+	family_name?: string
+	middle_name?: string
+	nickname?: string
+	preferred_username?: string
+	profile?: string
+	picture?: string
+	website?: string
+	email?: string
+	email_verified?: boolean
+	gender?: string
+	birthdate?: string
+	zoneinfo?: string
+	locale?: string
+	phone_number?: string
+	phone_number_verified?: boolean
+	address?: IDTokenAddress
+	updated_at?: number
+
+	[claim: string]: unknown
+}
+
+interface ProviderMetadata {
+	issuer: string
+	jwks_uri: string
+	id_token_signing_alg_values_supported?: string[]
+}
+
+const mismatch = (
+	claim: string,
+	payload: JWTPayload,
+	reason = 'check_failed'
+) =>
+	new errors.JWTClaimValidationFailed(
+		`unexpected "${claim}" claim value`,
+		payload,
+		claim,
+		reason
+	)
+
+/**
+ * Hash of an access token or code, as in `at_hash` and `c_hash`:
+ * the left half of its hash with the algorithm of the ID token
+ */
+export const leftHalfHash = async (value: string, alg: string) => {
+	const size = alg.startsWith('Ed') ? '512' : alg.slice(-3)
+	if (!['256', '384', '512'].includes(size))
+		throw new errors.JOSENotSupported(`Unsupported "alg" ${alg}`)
+
+	const digest = new Uint8Array(
+		await crypto.subtle.digest(
+			`SHA-${size}`,
+			new TextEncoder().encode(value)
+		)
+	)
+
+	return base64url.encode(digest.slice(0, digest.length / 2))
+}
+
+/**
+ * Create a function verifying ID tokens of a provider
+ *
+ * The discovery document is fetched on first use, and again after a failure
+ */
+export const createIDTokenVerifier = (
+	{
+		issuer,
+		clientId,
+		discovery = `${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`,
+		algorithms,
+		jwks,
+		timeout = '5s'
+	}: OIDCOption,
+	clockTolerance: string | number = 0
+) => {
+	const discover = async () => {
+		const response = await fetch(discovery, {
+			headers: { accept: 'application/json' },
+			signal: AbortSignal.timeout(toSeconds(timeout) * 1000)
+		})
+
+		if (!response.ok)
+			throw new errors.JOSEError(
+				`Expected 200 OK from the discovery document, got ${response.status}`
+			)
+
+		const metadata = (await response.json()) as ProviderMetadata
+
+		// The discovery document must belong to the configured issuer
+		if (metadata.issuer !== issuer)
+			throw new errors.JOSEError(
+				`Discovery document issuer "${metadata.issuer}" does not match "${issuer}"`
+			)
+
+		return {
+			metadata,
+			keySet: createRemoteKeySet({ ...jwks, url: metadata.jwks_uri })
+		}
+	}
+
+	let provider: ReturnType<typeof discover> | undefined
+
+	return async (
+		token: string,
+		{
+			nonce,
+			maxAge,
+			acrValues,
+			accessToken,
+			code
+		}: IDTokenVerifyOption = {}
+	): Promise<{ payload: IDTokenClaims; header: JWTHeaderParameters }> => {
+		const { metadata, keySet } = await (provider ??= discover().catch(
+			(error) => {
+				provider = undefined
+
+				throw error
+			}
+		))
+
+		const { payload, protectedHeader } = await jwtVerify(
+			token,
+			keySet.resolve,
+			{
+				issuer: metadata.issuer,
+				audience: clientId,
+				algorithms: algorithms ??
+					metadata.id_token_signing_alg_values_supported?.filter(
+						(alg) => alg !== 'none'
+					) ?? ['RS256'],
+				clockTolerance,
+				requiredClaims: ['sub', 'iat', 'exp']
+			}
+		)
+
+		// A token for several audiences must be authorized for this client
+		if (
+			(Array.isArray(payload.aud) && payload.aud.length > 1) ||
+			payload.azp !== undefined
+		) {
+			if (payload.azp === undefined)
+				throw mismatch('azp', payload, 'missing')
+			if (payload.azp !== clientId) throw mismatch('azp', payload)
+		}
+
+		if (nonce !== undefined && payload.nonce !== nonce)
+			throw mismatch(
+				'nonce',
+				payload,
+				payload.nonce === undefined ? 'missing' : 'check_failed'
+			)
+
+		if (maxAge !== undefined) {
+			if (typeof payload.auth_time !== 'number')
+				throw mismatch('auth_time', payload, 'missing')
+
+			if (
+				payload.auth_time +
+					toSeconds(maxAge) +
+					toSeconds(clockTolerance) <
+				now()
+			)
+				throw mismatch('auth_time', payload)
+		}
+
+		if (
+			acrValues !== undefined &&
+			!acrValues.includes(payload.acr as string)
+		)
+			throw mismatch(
+				'acr',
+				payload,
+				payload.acr === undefined ? 'missing' : 'check_failed'
+			)
+
+		for (const [claim, value] of [
+			['at_hash', accessToken],
+			['c_hash', code]
+		] as const)
+			if (
+				value !== undefined &&
+				payload[claim] !== undefined &&
+				payload[claim] !==
+					(await leftHalfHash(value, protectedHeader.alg))
+			)
+				throw mismatch(claim, payload)
+
+		return {
+			payload: payload as IDTokenClaims,
+			header: protectedHeader
+		}
+	}
+}
@@ -0,0 +1,64 @@
+import { atMostEvery, now } from './time'
+import type { MaybePromise } from './types'
+
+/**
+ * `typ` header of one-time tokens, so they can't be used as access tokens
+ */
+export const ONE_TIME_TOKEN_TYPE = 'one-time+jwt'
+
+/**
+ * Storage of consumed one-time tokens
+ *
+ * `consume` must check and mark the token atomically,
+ * so concurrent requests with the same token can't both succeed
+ */
+export interface OneTimeTokenStore {
+	/**
+	 * Mark a token as used, returning `false` if it was already used
+	 *
+	 * @param expiresAt Unix timestamp in seconds, after which the token can be forgotten
+	 */
+	consume(jti: string, expiresAt: number): MaybePromise<boolean>
+}
+
+export interface OneTimeTokenOption {
+	/**
+	 * Lifetime of one-time tokens, as seconds or a relative time, eg. '1h'
+	 *
+	 * @default '15m'
+	 */
+	exp?: string | number
+
+	/**
+	 * Storage of consumed one-time tokens
+	 *
+	 * @default createMemoryOneTimeTokenStore()
+	 */
+	store?: OneTimeTokenStore
+}
+
+/**
+ * In-memory one-time token store, used tokens are forgotten on restart
+ */
+export const createMemoryOneTimeTokenStore = (): OneTimeTokenStore => {
+	const used = new Map<string, number>()
+
+	const prune = atMostEvery(60, () => {
+		const time = now()
+
+		for (const [jti, expiresAt] of used)
+			if (expiresAt < time) used.delete(jti)
+	})
+
+	return {
+		consume(jti, expiresAt) {
+			prune()
+
+			if (used.has(jti)) return false
+
+			used.set(jti, expiresAt)
+
+			return true
+		}
+	}
+}
@@ -0,0 +1,129 @@
+import type { DocumentDecoration } from 'elysia'
+
+import type { DPoPOption } from './dpop'
+import { resolveTokenSources, type TokenSource } from './extract'
+import { requiredValues, type JWTRouteOption } from './scope'
+
+export type JWTSecurityScheme =
+	| { type: 'http'; scheme: string; bearerFormat?: string }
+	| { type: 'apiKey'; in: 'header' | 'cookie' | 'query'; name: string }
+
+export interface JWTSecuritySchemeOption {
+	/**
+	 * Name of the security scheme, the same as `securityScheme` of the plugin
+	 *
+	 * @default 'bearerAuth'
+	 */
+	name?: string
+
+	/**
+	 * The `extractor` of the plugin
+	 */
+	extractor?: TokenSource | TokenSource[]
+
+	/**
+	 * The `dpop` option of the plugin
+	 */
+	dpop?: DPoPOption | boolean
+}
+
+const toSecurityScheme = (
+	source: TokenSource
+): JWTSecurityScheme | undefined => {
+	// A custom extractor can read the token from anywhere
+	if (typeof source === 'function') return
+
+	if ('cookie' in source)
+		return { type: 'apiKey', in: 'cookie', name: source.cookie }
+	if ('query' in source)
+		return { type: 'apiKey', in: 'query', name: source.query }
+
+	if (source.header.toLowerCase() !== 'authorization' || !source.scheme)
+		return { type: 'apiKey', in: 'header', name: source.header }
+
+	return source.scheme.toLowerCase() === 'bearer'
+		? { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' }
+		: { type: 'http', scheme: source.scheme }
+}
+
+/**
+ * OpenAPI security schemes of the plugin, to register with the OpenAPI plugin
+ *
+ * Elysia's OpenAPI plugin only reads components from its own `documentation`,
+ * so the schemes can't be registered by this plugin.
+ * Pass the same `extractor` and `dpop` as the plugin, one scheme is created for
+ * each token source: `name` for the first one, then `name2`, `name3` and so on.
+ * Custom extractor functions can't be documented and are skipped
+ *
+ * ---
+ * @example
+ * ```typescript
+ * import { openapi } from '@elysiajs/openapi'
+ *
+ * app.use(
+ *     openapi({
+ *         documentation: {
+ *             components: { securitySchemes: jwtSecuritySchemes() }
+ *         }
+ *     })
+ * )
+ * .use(jwt({ secret: process.env.JWT_SECRET, securityScheme: 'bearerAuth' }))
+ * ```
+ */
+export const jwtSecuritySchemes = (
+	option: string | JWTSecuritySchemeOption = {}
+): Record<string, JWTSecurityScheme> => {
+	const {
+		name = 'bearerAuth',
+		extractor,
+		dpop
+	} = typeof option === 'string' ? { name: option } : option
+
+	const schemes = resolveTokenSources(extractor, dpop)
+		.map(toSecurityScheme)
+		.filter((scheme) => scheme !== undefined)
+
+	return Object.fromEntries(
+		schemes.map((scheme, index) => [
+			index ? `${name}${index + 1}` : name,
+			scheme
+		])
+	)
+}
+
+/**
+ * Document the security requirement and error responses of a guarded route,
+ * any of the security schemes is accepted
+ *
+ * Required scopes are listed in the security requirement, as allowed by OpenAPI 3.1
+ */
+export const documentRoute = (
+	schemes: string[],
+	{ requireScopes, requireRoles }: JWTRouteOption
+): DocumentDecoration => {
+	const scopes = requireScopes ? requiredValues(requireScopes) : []
+	const roles = requireRoles ? requiredValues(requireRoles) : []
+
+	const requirements = [
+		scopes.length &&
+			`${requireScopes && 'any' in requireScopes ? 'any' : 'all'} of scopes ${scopes.join(', ')}`,
+		roles.length &&
+			`${requireRoles && 'any' in requireRoles ? 'any' : 'all'} of roles ${roles.join(', ')}`
+	].filter(Boolean)
+
+	return {
+		...(schemes.length && {
+			security: schemes.map((scheme) => ({ [scheme]: scopes }))
+		}),
+		responses: {
+			401: {
+				description: 'Missing, invalid or expired token'
+			},
+			...(requirements.length && {
+				403: {
+					description: `Insufficient scope, requires ${requirements.join(' and ')}`
+				}
+			})
+		}
+	}
+}
@@ -0,0 +1,132 @@
+import { atMostEvery, now } from './time'
+import type { MaybePromise } from './types'
+import type { JWTVerifyError } from './verify'
+
+/**
+ * `typ` header of refresh tokens, so they can't be used as access tokens
+ */
+export const REFRESH_TOKEN_TYPE = 'refresh+jwt'
+
+/**
+ * Outcome of rotating a refresh token
+ *
+ * - `rotated`: the token was the current token of its family, and is replaced
+ * - `reused`: the token was already rotated, it's likely been stolen
+ * - `revoked`: the family is unknown, expired or revoked
+ */
+export type RefreshTokenRotation = 'rotated' | 'reused' | 'revoked'
+
+/**
+ * Storage of refresh token families.
+ *
+ * A family is the chain of refresh tokens issued from a single `issuePair`,
+ * only its latest token (identified by `jti`) can be used to refresh.
+ *
+ * `rotate` must compare and replace the current token atomically,
+ * so concurrent refreshes with the same token can't both succeed
+ */
+export interface RefreshTokenStore {
+	/**
+	 * Start a new family
+	 *
+	 * @param expiresAt Unix timestamp in seconds, after which the family can be removed
+	 */
+	create(family: string, jti: string, expiresAt: number): MaybePromise<void>
+
+	/**
+	 * Replace the current token of a family with `next`,
+	 * only if `jti` is the current token
+	 */
+	rotate(
+		family: string,
+		jti: string,
+		next: string
+	): MaybePromise<RefreshTokenRotation>
+
+	/**
+	 * Revoke a family, so none of its tokens can be used anymore
+	 */
+	revoke(family: string): MaybePromise<void>
+}
+
+export interface RefreshTokenOption {
+	/**
+	 * Lifetime of access tokens, as seconds or a relative time, eg. '15m'
+	 *
+	 * @default '15m'
+	 */
+	accessTokenExp?: string | number
+
+	/**
+	 * Lifetime of refresh tokens, as seconds or a relative time, eg. '7d'
+	 *
+	 * Refreshing keeps the expiration of the first refresh token of a family,
+	 * signing the user out once it passed
+	 *
+	 * @default '7d'
+	 */
+	refreshTokenExp?: string | number
+
+	/**
+	 * Storage of refresh token families
+	 *
+	 * @default createMemoryRefreshTokenStore()
+	 */
+	store?: RefreshTokenStore
+}
+
+export interface JWTTokenPair {
+	accessToken: string
+	refreshToken: string
+}
+
+export type JWTRefreshResult<Payload> =
+	| ({
+			success: true
+			payload: Payload
+	  } & JWTTokenPair)
+	| {
+			success: false
+			error: JWTVerifyError
+	  }
+
+/**
+ * In-memory refresh token store, for development and single instance deployments
+ */
+export const createMemoryRefreshTokenStore = (): RefreshTokenStore => {
+	const families = new Map<
+		string,
+		{ current: string; expiresAt: number; revoked: boolean }
+	>()
+
+	// Expired families are rejected by `rotate`, they're only removed to free memory
+	const prune = atMostEvery(60, () => {
+		const time = now()
+
+		for (const [family, { expiresAt }] of families)
+			if (expiresAt < time) families.delete(family)
+	})
+
+	return {
+		create(family, jti, expiresAt) {
+			prune()
+
+			families.set(family, { current: jti, expiresAt, revoked: false })
+		},
+		rotate(family, jti, next) {
+			const entry = families.get(family)
+			if (!entry || entry.revoked || entry.expiresAt < Date.now() / 1000)
+				return 'revoked'
+
+			if (entry.current !== jti) return 'reused'
+
+			entry.current = next
+
+			return 'rotated'
+		},
+		revoke(family) {
+			const entry = families.get(family)
+			if (entry) entry.revoked = true
+		}
+	}
+}
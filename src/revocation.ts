@@ -0,0 +1,219 @@
+import { atMostEvery, now } from './time'
+import type { MaybePromise } from './types'
+
+/**
+ * Claims of a token used to check whether it was revoked
+ */
+export interface RevocationClaims {
+	jti?: string
+	sub?: string
+	iat?: number
+}
+
+/**
+ * Storage of revoked tokens
+ *
+ * `expiresAt` is a Unix timestamp in seconds after which the entry can be
+ * removed, as every token it applies to has expired. Entries without
+ * `expiresAt` are kept forever
+ */
+export interface RevocationStore {
+	/**
+	 * Revoke a single token by its `jti`
+	 */
+	revoke(jti: string, expiresAt?: number): MaybePromise<void>
+
+	/**
+	 * Revoke every token of `sub` issued before `before`
+	 *
+	 * @param before Unix timestamp in seconds
+	 */
+	revokeSubject(
+		sub: string,
+		before: number,
+		expiresAt?: number
+	): MaybePromise<void>
+
+	/**
+	 * Check whether a token was revoked
+	 */
+	isRevoked(claims: RevocationClaims): MaybePromise<boolean>
+}
+
+export interface RevocationOption {
+	/**
+	 * Storage of revoked tokens
+	 *
+	 * @default createMemoryRevocationStore()
+	 */
+	store?: RevocationStore
+
+	/**
+	 * Generate a unique `jti` on `sign` when not provided,
+	 * so every token can be revoked individually
+	 *
+	 * @default true
+	 */
+	generateJti?: boolean
+
+	/**
+	 * Longest lifetime of a token, as seconds or a relative time,
+	 * used to expire revocations made without knowing the token's `exp`,
+	 * eg. by `jti` or with `revokeAllFor`
+	 *
+	 * Defaults to the plugin `maxTokenAge`, or `exp` if it's a relative time,
+	 * otherwise such revocations are kept forever
+	 */
+	maxTokenAge?: string | number
+}
+
+const isRevokedSubject = (
+	{ iat }: RevocationClaims,
+	before: number | undefined
+) =>
+	// A token without `iat` can't be told apart from older tokens
+	before !== undefined && (iat === undefined || iat < before)
+
+/**
+ * In-memory revocation store, see `createSQLiteRevocationStore` to persist revocations
+ */
+export const createMemoryRevocationStore = (): RevocationStore => {
+	const tokens = new Map<string, number | undefined>()
+	const subjects = new Map<
+		string,
+		{ before: number; expiresAt: number | undefined }
+	>()
+
+	const prune = atMostEvery(60, () => {
+		const time = now()
+
+		for (const [jti, expiresAt] of tokens)
+			if (expiresAt !== undefined && expiresAt < time) tokens.delete(jti)
+
+		for (const [sub, { expiresAt }] of subjects)
+			if (expiresAt !== undefined && expiresAt < time)
+				subjects.delete(sub)
+	})
+
+	return {
+		revoke(jti, expiresAt) {
+			prune()
+
+			tokens.set(jti, expiresAt)
+		},
+		revokeSubject(sub, before, expiresAt) {
+			prune()
+
+			const previous = subjects.get(sub)
+
+			subjects.set(sub, {
+				before: Math.max(before, previous?.before ?? before),
+				expiresAt: !previous
+					? expiresAt
+					: expiresAt === undefined ||
+						  previous.expiresAt === undefined
+						? undefined
+						: Math.max(expiresAt, previous.expiresAt)
+			})
+		},
+		isRevoked(claims) {
+			if (claims.jti !== undefined && tokens.has(claims.jti)) return true
+
+			return (
+				claims.sub !== undefined &&
+				isRevokedSubject(claims, subjects.get(claims.sub)?.before)
+			)
+		}
+	}
+}
+
+/**
+ * Subset of `Database` from `bun:sqlite` used by the revocation store
+ */
+export interface SQLiteDatabase {
+	run(sql: string, ...bindings: any[]): unknown
+	query(sql: string): {
+		get(...bindings: any[]): unknown
+	}
+}
+
+/**
+ * Revocation store backed by SQLite, using `bun:sqlite`
+ *
+ * Creates `jwt_revoked_token` and `jwt_revoked_subject` tables if they don't exist,
+ * expired entries are removed whenever a token is revoked
+ *
+ * ---
+ * @example
+ * ```typescript
+ * import { Database } from 'bun:sqlite'
+ *
+ * jwt({
+ *     secret: process.env.JWT_SECRET,
+ *     revocation: {
+ *         store: createSQLiteRevocationStore(new Database('revocation.sqlite'))
+ *     }
+ * })
+ * ```
+ */
+export const createSQLiteRevocationStore = (
+	database: SQLiteDatabase
+): RevocationStore => {
+	database.run(
+		'CREATE TABLE IF NOT EXISTS jwt_revoked_token (jti TEXT PRIMARY KEY, expires_at INTEGER)'
+	)
+	database.run(
+		'CREATE TABLE IF NOT EXISTS jwt_revoked_subject (sub TEXT PRIMARY KEY, revoked_before INTEGER NOT NULL, expires_at INTEGER)'
+	)
+
+	const prune = () => {
+		const time = now()
+
+		database.run('DELETE FROM jwt_revoked_token WHERE expires_at < ?', [
+			time
+		])
+		database.run('DELETE FROM jwt_revoked_subject WHERE expires_at < ?', [
+			time
+		])
+	}
+
+	const findToken = database.query(
+		'SELECT 1 FROM jwt_revoked_token WHERE jti = ?'
+	)
+	const findSubject = database.query(
+		'SELECT revoked_before FROM jwt_revoked_subject WHERE sub = ?'
+	)
+
+	return {
+		revoke(jti, expiresAt) {
+			prune()
+
+			database.run(
+				'INSERT OR REPLACE INTO jwt_revoked_token (jti, expires_at) VALUES (?, ?)',
+				[jti, expiresAt ?? null]
+			)
+		},
+		revokeSubject(sub, before, expiresAt) {
+			prune()
+
+			database.run(
+				`INSERT INTO jwt_revoked_subject (sub, revoked_before, expires_at) VALUES (?1, ?2, ?3)
+				ON CONFLICT (sub) DO UPDATE SET
+					revoked_before = MAX(revoked_before, ?2),
+					expires_at = CASE WHEN expires_at IS NULL OR ?3 IS NULL THEN NULL ELSE MAX(expires_at, ?3) END`,
+				[sub, before, expiresAt ?? null]
+			)
+		},
+		isRevoked(claims) {
+			if (claims.jti !== undefined && findToken.get(claims.jti))
+				return true
+
+			if (claims.sub === undefined) return false
+
+			const subject = findSubject.get(claims.sub) as
+				{ revoked_before: number } | null | undefined
+
+			return isRevokedSubject(claims, subject?.revoked_before)
+		}
+	}
+}
@@ -0,0 +1,64 @@
+import { t, ValidationError, getSchemaValidator } from 'elysia'
+import type { AnySchema, StandardSchemaV1Like } from 'elysia/types'
+
+// Registered claims, validated alongside `schema`.
+// Created for each validator, as `getSchemaValidator` may modify the schema
+const registeredClaims = () =>
+	t.Object({
+		iss: t.Optional(t.String()),
+		sub: t.Optional(t.String()),
+		aud: t.Optional(t.Union([t.String(), t.Array(t.String())])),
+		jti: t.Optional(t.String()),
+		nbf: t.Optional(t.Number()),
+		exp: t.Optional(t.Number()),
+		iat: t.Optional(t.Number())
+	})
+
+type StandardSchemaResult =
+	| { value: Record<string, unknown>; issues?: undefined }
+	| { issues: unknown[] }
+
+/**
+ * Create a validator of the payload against `schema`,
+ * throwing `ValidationError` if it doesn't match
+ *
+ * Resolves the parsed output of the schema, so TypeBox `t.Transform`
+ * and Standard Schema transforms, eg. Zod `z.coerce.date()`, are applied
+ */
+export const createPayloadValidator = (schema: AnySchema) => {
+	if (!('~standard' in schema)) {
+		const validator = getSchemaValidator(schema, {
+			modules: t.Module({}),
+			validators: [registeredClaims()]
+		})
+
+		return async (payload: unknown): Promise<unknown> => {
+			if (!validator.Check(payload))
+				throw new ValidationError('JWT', validator, payload)
+
+			return validator.hasTransform ? validator.Decode(payload) : payload
+		}
+	}
+
+	const claims = getSchemaValidator(registeredClaims(), {
+		additionalProperties: true
+	})
+	const { validate } = (
+		schema as StandardSchemaV1Like & {
+			'~standard': {
+				validate(value: unknown): StandardSchemaResult
+			}
+		}
+	)['~standard']
+
+	return async (payload: unknown): Promise<unknown> => {
+		if (!claims.Check(payload))
+			throw new ValidationError('JWT', claims, payload)
+
+		const result = await validate(payload)
+		if (result.issues) throw new ValidationError('JWT', schema, payload)
+
+		// Keep claims stripped by the schema, eg. `exp` or the `fam` of refresh tokens
+		return { ...(payload as Record<string, unknown>), ...result.value }
+	}
+}
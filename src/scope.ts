@@ -0,0 +1,88 @@
+/**
+ * Values a token must have in a claim, eg. scopes or roles
+ *
+ * An array requires every value, use `{ any }` to require at least one of them
+ */
+export type ClaimRequirement = string[] | { all: string[] } | { any: string[] }
+
+export interface JWTRouteOption {
+	/**
+	 * Scopes the token must be granted, read from `scopeClaim`
+	 *
+	 * ---
+	 * @example
+	 * ```typescript
+	 * app.get('/orders', () => orders, {
+	 *     jwt: { requireScopes: ['orders:read'] }
+	 * })
+	 * ```
+	 */
+	requireScopes?: ClaimRequirement
+
+	/**
+	 * Roles the token must have, read from `roleClaim`
+	 *
+	 * ---
+	 * @example
+	 * ```typescript
+	 * app.delete('/orders/:id', () => remove(), {
+	 *     jwt: { requireRoles: { any: ['admin', 'support'] } }
+	 * })
+	 * ```
+	 */
+	requireRoles?: ClaimRequirement
+}
+
+/**
+ * Read a claim by its path, eg. `realm_access.roles`
+ */
+export const readClaim = (payload: Record<string, unknown>, path: string) => {
+	// A claim named with dots takes priority over a nested claim
+	if (path in payload) return payload[path]
+
+	let value: unknown = payload
+	for (const key of path.split('.')) {
+		if (typeof value !== 'object' || value === null) return
+
+		value = (value as Record<string, unknown>)[key]
+	}
+
+	return value
+}
+
+/**
+ * Normalize a space-delimited string or an array claim to a list of values
+ *
+ * @see {@link https://www.rfc-editor.org/rfc/rfc8693#section-4.2 RFC8693#section-4.2}
+ */
+export const toClaimList = (value: unknown): string[] => {
+	if (typeof value === 'string') return value.split(' ').filter(Boolean)
+
+	if (Array.isArray(value))
+		return value.filter((item): item is string => typeof item === 'string')
+
+	return []
+}
+
+export const requiredValues = (requirement: ClaimRequirement) =>
+	Array.isArray(requirement)
+		? requirement
+		: 'all' in requirement
+			? requirement.all
+			: requirement.any
+
+/**
+ * Check whether `granted` meets `requirement`, always `true` without requirement
+ */
+export const meetsRequirement = (
+	granted: string[],
+	requirement?: ClaimRequirement
+) => {
+	if (!requirement) return true
+
+	const required = requiredValues(requirement)
+
+	return !Array.isArray(requirement) && 'any' in requirement
+		? required.some((value) => granted.includes(value))
+		: required.every((value) => granted.includes(value))
+}
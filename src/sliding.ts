@@ -0,0 +1,81 @@
+import type { CookieOptions } from 'elysia'
+
+import { now, toSeconds } from './time'
+
+/**
+ * Re-sign tokens verified by the route macro when they're about to expire,
+ * so sessions extend while the user is active
+ */
+export interface SlidingSessionOption {
+	/**
+	 * Re-sign a token once its remaining lifetime drops below this,
+	 * as seconds or a relative time, eg. '5m'
+	 */
+	threshold: string | number
+
+	/**
+	 * Lifetime of the re-signed token, as seconds or a relative time, eg. '30m'
+	 *
+	 * @default the plugin `exp`, if it's a relative time
+	 */
+	exp?: string | number
+
+	/**
+	 * Absolute maximum age of a session, as seconds or a relative time, eg. '12h'
+	 *
+	 * Measured from the `auth_time` claim, or `iat` of the first token of the session.
+	 * Re-signed tokens never expire after it, and carry `auth_time` over
+	 */
+	maxAge?: string | number
+
+	/**
+	 * Response header to return the re-signed token in,
+	 * when the token wasn't read from a cookie
+	 *
+	 * @default 'x-access-token'
+	 */
+	header?: string
+
+	/**
+	 * Attributes of the cookie set with the re-signed token,
+	 * when the token was read from a cookie
+	 *
+	 * @default the plugin `cookie` attributes
+	 */
+	cookie?: CookieOptions
+}
+
+/**
+ * Resolve the session start and expiration of a re-signed token,
+ * or `undefined` if the token doesn't need to be re-signed yet
+ */
+export const slideSession = (
+	{
+		exp,
+		iat,
+		auth_time
+	}: { exp?: number; iat?: number; auth_time?: unknown },
+	{
+		threshold,
+		exp: nextExp,
+		maxAge
+	}: SlidingSessionOption & { exp: string | number }
+) => {
+	const time = now()
+
+	// Tokens without expiration never need to be re-signed
+	if (exp === undefined || exp - time > toSeconds(threshold)) return
+
+	const authTime = typeof auth_time === 'number' ? auth_time : iat
+	const expiresAt = time + toSeconds(nextExp)
+
+	if (maxAge === undefined) return { authTime, exp: expiresAt }
+
+	// Without `iat` or `auth_time`, the session age can't be enforced
+	if (authTime === undefined) return
+
+	const sessionEnd = authTime + toSeconds(maxAge)
+	if (sessionEnd <= exp) return
+
+	return { authTime, exp: Math.min(expiresAt, sessionEnd) }
+}
@@ -0,0 +1,138 @@
+import type { JoseHeaderParameters } from 'jose'
+
+import { createKey, type JWTSecret, type ResolvedKey } from './keys'
+import { toSeconds } from './time'
+import type { MaybePromise } from './types'
+
+/**
+ * Token a secret is resolved for
+ */
+export interface JWTSecretContext {
+	/**
+	 * Tenant of the token, read from the `tenantClaim` claim
+	 */
+	tenant?: string
+
+	/**
+	 * Header of the token, only the per-call header of `sign` when signing
+	 */
+	header: JoseHeaderParameters & Record<string, unknown>
+
+	/**
+	 * Claims of the token, not verified yet when verifying
+	 */
+	payload: Record<string, unknown>
+}
+
+/**
+ * Resolve the secret of a token, eg. from the tenant's settings
+ *
+ * Return `undefined` for an unknown tenant,
+ * verifying its tokens fails with `unknown_key`
+ */
+export type JWTSecretResolver = (
+	context: JWTSecretContext
+) => MaybePromise<JWTSecret | undefined>
+
+export interface TenantCacheOption {
+	/**
+	 * Duration the key of a tenant is cached, as seconds or a relative time
+	 *
+	 * A tenant removed or with a rotated secret keeps verifying tokens
+	 * with its previous key for up to `ttl`, unless `invalidateTenant` is called
+	 *
+	 * @default '5m'
+	 */
+	ttl?: string | number
+
+	/**
+	 * Maximum number of tenant keys cached, the oldest is evicted first
+	 *
+	 * @default 1000
+	 */
+	max?: number
+}
+
+interface CachedTenantKey {
+	key: Promise<ResolvedKey | undefined>
+
+	/**
+	 * Timestamp in milliseconds, after which the secret is resolved again
+	 */
+	expiresAt: number
+}
+
+/**
+ * Resolve keys with a secret resolver, caching the key of each tenant for `ttl`
+ *
+ * Unknown tenants and failed lookups are not cached,
+ * so a tenant can be added without restarting
+ */
+export const createSecretResolver = (
+	resolver: JWTSecretResolver,
+	{
+		alg,
+		kid,
+		tenantClaim,
+		ttl = '5m',
+		max = 1000
+	}: TenantCacheOption & { alg: string; kid?: string; tenantClaim: string }
+) => {
+	if (!Number.isInteger(max) || max < 1)
+		throw new Error('Tenant cache "max" must be a positive integer')
+
+	const cache = new Map<string, CachedTenantKey>()
+
+	const resolveKey = async (context: JWTSecretContext) => {
+		const secret = await resolver(context)
+		if (secret === undefined) return
+
+		return createKey({ kid, alg, algorithms: [alg], secret })
+	}
+
+	const resolve = (
+		header: JWTSecretContext['header'],
+		payload: Record<string, unknown>
+	) => {
+		const claim = payload[tenantClaim]
+		const tenant = typeof claim === 'string' ? claim : undefined
+
+		const context = { tenant, header, payload }
+		if (tenant === undefined) return resolveKey(context)
+
+		const cached = cache.get(tenant)
+		if (cached && cached.expiresAt > Date.now()) return cached.key
+
+		const entry = {
+			key: resolveKey(context),
+			expiresAt: Date.now() + toSeconds(ttl) * 1000
+		}
+
+		cache.delete(tenant)
+		cache.set(tenant, entry)
+
+		// Map keeps insertion order, the first entry is the oldest
+		if (cache.size > max) cache.delete(cache.keys().next().value!)
+
+		const forget = () => {
+			if (cache.get(tenant) === entry) cache.delete(tenant)
+		}
+
+		entry.key.then((resolved) => {
+			if (!resolved) forget()
+		}, forget)
+
+		return entry.key
+	}
+
+	return {
+		resolve,
+		/**
+		 * Drop the cached key of a tenant, or of every tenant
+		 */
+		invalidate(tenant?: string) {
+			if (tenant === undefined) cache.clear()
+			else cache.delete(tenant)
+		}
+	}
+}
@@ -0,0 +1,62 @@
+const units: Record<string, number> = {
+	s: 1,
+	m: 60,
+	h: 3600,
+	d: 86400,
+	w: 604800,
+	y: 31557600
+}
+
+// Same format as the relative time accepted by jose, eg. '30m', '7d' or '2 hours ago'
+const timeSpan =
+	/^(\+|-)? ?(\d+|\d+\.\d+) ?(seconds?|secs?|s|minutes?|mins?|m|hours?|hrs?|h|days?|d|weeks?|w|years?|yrs?|y)(?: (ago|from now))?$/i
+
+/**
+ * Current time as a Unix timestamp in seconds
+ */
+export const now = () => Math.floor(Date.now() / 1000)
+
+/**
+ * Resolve a time claim value to a Unix timestamp in seconds
+ *
+ * Numbers are absolute timestamps, strings are relative to `from`,
+ * the same way `sign` treats `exp` and `nbf`
+ */
+export const toTimestamp = (value: string | number, from = now()) => {
+	if (typeof value === 'number') return value
+
+	const matched = timeSpan.exec(value)
+	if (!matched || (matched[4] && matched[1]))
+		throw new TypeError(`Invalid time period format: "${value}"`)
+
+	const seconds = Math.round(
+		parseFloat(matched[2]) * units[matched[3][0].toLowerCase()]
+	)
+
+	return matched[1] === '-' || matched[4]?.toLowerCase() === 'ago'
+		? from - seconds
+		: from + seconds
+}
+
+/**
+ * Resolve a duration to seconds, numbers are already in seconds
+ * while strings are relative times, eg. '5m'
+ */
+export const toSeconds = (value: string | number) =>
+	typeof value === 'number' ? value : toTimestamp(value, 0)
+
+/**
+ * Run `task` at most once per `interval` seconds, eg. to prune expired entries
+ * of an in-memory store without walking it on every call
+ */
+export const atMostEvery = (interval: number, task: () => void) => {
+	let lastRun = 0
+
+	return () => {
+		const time = now()
+		if (time - lastRun < interval) return
+
+		lastRun = time
+		task()
+	}
+}
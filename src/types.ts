@@ -0,0 +1 @@
+export type MaybePromise<T> = T | Promise<T>
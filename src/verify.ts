@@ -0,0 +1,140 @@
+import { ValidationError } from 'elysia'
+import { errors, type JWTHeaderParameters } from 'jose'
+
+/**
+ * Reason a token failed verification
+ *
+ * - `missing`: no token was provided
+ * - `malformed`: the token can't be decoded as a JWT
+ * - `invalid_signature`: the signature or its algorithm doesn't match the key,
+ *   or an encrypted token can't be decrypted
+ * - `unknown_key`: no key matches the token's `kid`
+ * - `expired`: the `exp` claim is in the past
+ * - `not_yet_valid`: the `nbf` claim is in the future
+ * - `claim_mismatch`: a claim doesn't match the verify options, eg. `iss` or `aud`
+ * - `schema_invalid`: the payload doesn't match `schema`
+ * - `revoked`: the token, or its refresh token family, was revoked
+ * - `reused`: a refresh token was used more than once, its family is revoked,
+ *   or a one-time token was already used
+ * - `unknown`: any other error, eg. a JWKS endpoint being unreachable
+ */
+export type JWTVerifyErrorCode =
+	| 'missing'
+	| 'malformed'
+	| 'invalid_signature'
+	| 'unknown_key'
+	| 'expired'
+	| 'not_yet_valid'
+	| 'claim_mismatch'
+	| 'schema_invalid'
+	| 'revoked'
+	| 'reused'
+	| 'unknown'
+
+export interface JWTVerifyError {
+	code: JWTVerifyErrorCode
+
+	/**
+	 * Human readable description of the error
+	 */
+	message: string
+
+	/**
+	 * Claim that failed validation, eg. `exp`, `iss` or `aud`
+	 */
+	claim?: string
+
+	/**
+	 * Reason the claim failed validation, eg. `check_failed` or `missing`
+	 */
+	reason?: string
+
+	/**
+	 * Original error thrown by jose or the schema validator
+	 */
+	cause?: unknown
+}
+
+export type JWTVerifyResult<Payload> =
+	| {
+			success: true
+			payload: Payload
+			header: JWTHeaderParameters
+	  }
+	| {
+			success: false
+			error: JWTVerifyError
+	  }
+
+export const missingToken = (): JWTVerifyResult<never> => ({
+	success: false,
+	error: {
+		code: 'missing',
+		message: 'Token is missing'
+	}
+})
+
+export const toVerifyError = (error: unknown): JWTVerifyError => {
+	if (error instanceof ValidationError)
+		return {
+			code: 'schema_invalid',
+			message: 'Payload does not match schema',
+			cause: error
+		}
+
+	if (
+		error instanceof errors.JWTExpired ||
+		error instanceof errors.JWTClaimValidationFailed
+	)
+		return {
+			code:
+				error instanceof errors.JWTExpired
+					? 'expired'
+					: error.claim === 'nbf'
+						? 'not_yet_valid'
+						: 'claim_mismatch',
+			message: error.message,
+			claim: error.claim,
+			reason: error.reason,
+			cause: error
+		}
+
+	if (
+		error instanceof errors.JWSSignatureVerificationFailed ||
+		error instanceof errors.JWEDecryptionFailed ||
+		error instanceof errors.JOSEAlgNotAllowed ||
+		error instanceof errors.JOSENotSupported
+	)
+		return {
+			code: 'invalid_signature',
+			message: error.message,
+			cause: error
+		}
+
+	if (
+		error instanceof errors.JWKSNoMatchingKey ||
+		error instanceof errors.JWKSMultipleMatchingKeys
+	)
+		return {
+			code: 'unknown_key',
+			message: error.message,
+			cause: error
+		}
+
+	if (
+		error instanceof errors.JWSInvalid ||
+		error instanceof errors.JWEInvalid ||
+		error instanceof errors.JWTInvalid
+	)
+		return {
+			code: 'malformed',
+			message: error.message,
+			cause: error
+		}
+
+	return {
+		code: 'unknown',
+		message: error instanceof Error ? error.message : String(error),
+		cause: error
+	}
+}
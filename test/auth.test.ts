@@ -0,0 +1,140 @@
+import { Elysia, t } from 'elysia'
+
+import { jwt } from '../src'
+
+import { describe, expect, it } from 'bun:test'
+
+const get = (path: string, token?: string) =>
+	new Request(`http://localhost${path}`, {
+		headers: token ? { authorization: `Bearer ${token}` } : {}
+	})
+
+describe('Auth Macro', () => {
+	const app = new Elysia()
+		.use(
+			jwt({
+				secret: 'A',
+				schema: t.Object({
+					name: t.String()
+				})
+			})
+		)
+		.get('/profile', ({ payload }) => payload.name, {
+			jwt: true
+		})
+
+	it('inject verified payload', async () => {
+		const token = await app.decorator.jwt.sign({ name: 'Shirakami' })
+		const response = await app.handle(get('/profile', token))
+
+		expect(response.status).toBe(200)
+		expect(await response.text()).toBe('Shirakami')
+	})
+
+	it('challenge request without token', async () => {
+		const response = await app.handle(get('/profile'))
+
+		expect(response.status).toBe(401)
+		expect(response.headers.get('www-authenticate')).toBe('Bearer')
+	})
+
+	it('challenge request with invalid token', async () => {
+		const response = await app.handle(get('/profile', 'invalid'))
+
+		expect(response.status).toBe(401)
+		expect(response.headers.get('www-authenticate')).toStartWith(
+			'Bearer error="invalid_token"'
+		)
+	})
+
+	it('register macro under plugin name', async () => {
+		const app = new Elysia()
+			.use(jwt({ name: 'accessToken', secret: 'A' }))
+			.get('/profile', ({ payload }) => payload.sub, {
+				accessToken: true
+			})
+
+		const token = await app.decorator.accessToken.sign({ sub: 'fubuki' })
+		const response = await app.handle(get('/profile', token))
+
+		expect(await response.text()).toBe('fubuki')
+	})
+})
+
+describe('Scope and Role', () => {
+	const app = new Elysia()
+		.use(jwt({ secret: 'A' }))
+		.get('/orders', ({ scopes }) => scopes.join(','), {
+			jwt: { requireScopes: ['orders:read', 'orders:list'] }
+		})
+		.get('/any', ({ scopes }) => scopes.join(','), {
+			jwt: { requireScopes: { any: ['orders:read', 'orders:write'] } }
+		})
+		.get('/admin', ({ roles }) => roles.join(','), {
+			jwt: { requireRoles: ['admin'] }
+		})
+
+	const { sign } = app.decorator.jwt
+
+	it('accept token with every required scope', async () => {
+		const token = await sign({ scope: 'orders:read orders:list profile' })
+		const response = await app.handle(get('/orders', token))
+
+		expect(response.status).toBe(200)
+		expect(await response.text()).toBe('orders:read,orders:list,profile')
+	})
+
+	it('reject token missing a required scope', async () => {
+		const token = await sign({ scope: 'orders:read' })
+		const response = await app.handle(get('/orders', token))
+
+		expect(response.status).toBe(403)
+		expect(response.headers.get('www-authenticate')).toBe(
+			'Bearer error="insufficient_scope", scope="orders:read orders:list"'
+		)
+	})
+
+	it('accept token with any of the scopes', async () => {
+		const token = await sign({ scope: ['orders:write'] })
+
+		expect((await app.handle(get('/any', token))).status).toBe(200)
+		expect(
+			(await app.handle(get('/any', await sign({ scope: 'profile' }))))
+				.status
+		).toBe(403)
+	})
+
+	it('check roles', async () => {
+		const admin = await sign({ roles: ['admin'] })
+		const user = await sign({ roles: ['user'] })
+
+		expect(await (await app.handle(get('/admin', admin))).text()).toBe(
+			'admin'
+		)
+
+		const response = await app.handle(get('/admin', user))
+
+		expect(response.status).toBe(403)
+		expect(response.headers.get('www-authenticate')).toBe(
+			'Bearer error="insufficient_scope"'
+		)
+	})
+
+	it('still require a valid token', async () => {
+		expect((await app.handle(get('/orders'))).status).toBe(401)
+	})
+
+	it('read roles from a configured claim path', async () => {
+		const app = new Elysia()
+			.use(jwt({ secret: 'A', roleClaim: 'realm_access.roles' }))
+			.get('/admin', ({ roles }) => roles.join(','), {
+				jwt: { requireRoles: ['admin'] }
+			})
+
+		const token = await app.decorator.jwt.sign({
+			realm_access: { roles: ['admin'] }
+		})
+
+		expect((await app.handle(get('/admin', token))).status).toBe(200)
+	})
+})
@@ -0,0 +1,171 @@
+import { jwt, type JWTOption } from '../src'
+
+import { describe, expect, it } from 'bun:test'
+
+const signer = (options: JWTOption) => jwt(options).decorator.jwt
+
+describe('Verify Cache', () => {
+	it('skip signature check of a verified token', async () => {
+		const { sign, verify, verifyCache } = signer({
+			secret: 'A',
+			verifyCache: true
+		})
+
+		const token = await sign({ sub: 'shirakami' })
+
+		expect(await verify(token)).toMatchObject({ sub: 'shirakami' })
+		expect(await verify(token)).toMatchObject({ sub: 'shirakami' })
+		expect(verifyCache.stats()).toEqual({
+			hits: 1,
+			misses: 1,
+			evictions: 0,
+			size: 1,
+			max: 1000
+		})
+	})
+
+	it('not cache rejected tokens', async () => {
+		const { sign, verify, verifyCache } = signer({
+			secret: 'A',
+			verifyCache: true
+		})
+		const { sign: forge } = signer({ secret: 'B' })
+
+		const token = await forge({ sub: 'shirakami' })
+
+		expect(await verify(token)).toBe(false)
+		expect(await verify(token)).toBe(false)
+		expect(await verify(await sign({ exp: 0 }))).toBe(false)
+		expect(verifyCache.stats()).toMatchObject({ hits: 0, size: 0 })
+	})
+
+	it('bypass cache with per-call options', async () => {
+		const { sign, verify, verifyCache } = signer({
+			secret: 'A',
+			verifyCache: true
+		})
+
+		const token = await sign({ sub: 'shirakami', aud: 'billing' })
+
+		expect(await verify(token)).toMatchObject({ sub: 'shirakami' })
+		expect(await verify(token, { audience: 'shipping' })).toBe(false)
+		expect(verifyCache.stats()).toMatchObject({ hits: 0, misses: 1 })
+	})
+
+	it('evict least recently used token', async () => {
+		const { sign, verify, verifyCache } = signer({
+			secret: 'A',
+			verifyCache: { max: 2 }
+		})
+
+		const [first, second, third] = await Promise.all(
+			['first', 'second', 'third'].map((sub) => sign({ sub }))
+		)
+
+		await verify(first)
+		await verify(second)
+		await verify(first)
+		await verify(third)
+
+		expect(verifyCache.stats()).toMatchObject({
+			hits: 1,
+			misses: 3,
+			evictions: 1,
+			size: 2
+		})
+
+		// `second` was evicted, `first` was used more recently
+		await verify(first)
+		await verify(second)
+
+		expect(verifyCache.stats()).toMatchObject({ hits: 2, misses: 4 })
+	})
+
+	it('drop token once it expires', async () => {
+		const { sign, verify, verifyCache } = signer({
+			secret: 'A',
+			verifyCache: true
+		})
+
+		const token = await sign({ sub: 'shirakami', exp: '1s' })
+
+		expect(await verify(token)).toMatchObject({ sub: 'shirakami' })
+
+		await Bun.sleep(1100)
+
+		expect(await verify(token)).toBe(false)
+		expect(verifyCache.stats()).toMatchObject({ hits: 0, size: 0 })
+	})
+
+	it('reject cached token once revoked', async () => {
+		const { sign, verify, revoke } = signer({
+			secret: 'A',
+			revocation: true,
+			verifyCache: true
+		})
+
+		const token = await sign({ sub: 'shirakami' })
+
+		expect(await verify(token)).toMatchObject({ sub: 'shirakami' })
+
+		await revoke(token)
+
+		expect(await verify(token)).toBe(false)
+	})
+
+	it('reject cached token once its key is retired', async () => {
+		const previous = signer({
+			keys: [{ kid: 'old', secret: 'old secret' }]
+		})
+		const { verify, verifyCache } = signer({
+			keys: [
+				{ kid: 'new', secret: 'new secret', active: true },
+				{
+					kid: 'old',
+					secret: 'old secret',
+					verifyUntil: new Date(Date.now() + 100)
+				}
+			],
+			verifyCache: true
+		})
+
+		const token = await previous.sign({ sub: 'shirakami' })
+
+		expect(await verify(token)).toMatchObject({ sub: 'shirakami' })
+
+		await Bun.sleep(150)
+
+		expect(await verify(token)).toBe(false)
+		expect(verifyCache.stats().size).toBe(0)
+	})
+
+	it('reject cached token once its tenant secret is rotated', async () => {
+		const secrets: Record<string, string> = { hololive: 'hololive secret' }
+		const { sign, verify, invalidateTenant } = signer({
+			secret: ({ tenant }) => (tenant ? secrets[tenant] : undefined),
+			verifyCache: true
+		})
+
+		const token = await sign({ sub: 'shirakami', tid: 'hololive' })
+
+		expect(await verify(token)).toMatchObject({ sub: 'shirakami' })
+
+		secrets.hololive = 'rotated secret'
+		invalidateTenant('hololive')
+
+		expect(await verify(token)).toBe(false)
+	})
+
+	it('return a copy of the cached payload', async () => {
+		const { sign, verify } = signer({ secret: 'A', verifyCache: true })
+
+		const token = await sign({ sub: 'shirakami' })
+
+		const payload = await verify(token)
+		if (!payload) throw new Error('Expected token to be valid')
+
+		payload.sub = 'hololive'
+
+		expect(await verify(token)).toMatchObject({ sub: 'shirakami' })
+	})
+})
@@ -0,0 +1,105 @@
+import { Elysia } from 'elysia'
+
+import { jwt } from '../src'
+
+import { describe, expect, it } from 'bun:test'
+
+const request = (path: string, cookie?: string) =>
+	new Request(`http://localhost${path}`, {
+		headers: cookie ? { cookie } : {}
+	})
+
+describe('Cookie', () => {
+	const app = new Elysia()
+		.use(jwt({ secret: 'A' }))
+		.get('/sign-in', ({ jwt, cookie }) =>
+			jwt.setCookie(cookie, { sub: 'shirakami', exp: '1h' })
+		)
+		.get('/profile', async ({ jwt, cookie }) => {
+			const payload = await jwt.readCookie(cookie)
+
+			return payload ? payload.sub : 'guest'
+		})
+		.get('/sign-out', ({ jwt, cookie }) => {
+			jwt.clearCookie(cookie)
+		})
+
+	it('set cookie with secure defaults', async () => {
+		const response = await app.handle(request('/sign-in'))
+		const cookie = response.headers.get('set-cookie')!
+
+		expect(cookie).toStartWith(`auth=${await response.text()}`)
+		expect(cookie).toContain('HttpOnly')
+		expect(cookie).toContain('Secure')
+		expect(cookie).toContain('SameSite=Lax')
+		expect(cookie).toContain('Path=/')
+	})
+
+	it('expire cookie with token', async () => {
+		const response = await app.handle(request('/sign-in'))
+		const cookie = response.headers.get('set-cookie')!
+
+		const maxAge = parseInt(cookie.match(/Max-Age=(\d+)/)![1])
+		const expires = new Date(cookie.match(/Expires=([^;]+)/)![1])
+
+		expect(maxAge).toBeGreaterThan(3590)
+		expect(maxAge).toBeLessThanOrEqual(3600)
+		expect(expires.getTime() - Date.now()).toBeGreaterThan(3580_000)
+	})
+
+	it('read token from cookie', async () => {
+		const token = await (await app.handle(request('/sign-in'))).text()
+
+		expect(
+			await (
+				await app.handle(request('/profile', `auth=${token}`))
+			).text()
+		).toBe('shirakami')
+		expect(
+			await (await app.handle(request('/profile', 'auth=invalid'))).text()
+		).toBe('guest')
+		expect(await (await app.handle(request('/profile'))).text()).toBe(
+			'guest'
+		)
+	})
+
+	it('clear cookie', async () => {
+		const response = await app.handle(request('/sign-out', 'auth=token'))
+		const cookie = response.headers.get('set-cookie')!
+
+		expect(cookie).toStartWith('auth=;')
+		expect(cookie).toContain('Max-Age=0')
+		expect(cookie).toContain('Path=/')
+	})
+
+	it('support __Host- prefix', async () => {
+		const app = new Elysia()
+			.use(jwt({ secret: 'A', cookie: { name: '__Host-session' } }))
+			.get('/sign-in', ({ jwt, cookie }) =>
+				jwt.setCookie(cookie, { sub: 'shirakami' })
+			)
+
+		const response = await app.handle(request('/sign-in'))
+		const cookie = response.headers.get('set-cookie')!
+
+		expect(cookie).toStartWith('__Host-session=')
+		// A token without `exp` is kept for the browser session
+		expect(cookie).not.toContain('Max-Age')
+	})
+
+	it('reject __Host- prefix with domain', () => {
+		expect(() =>
+			jwt({
+				secret: 'A',
+				cookie: { name: '__Host-session', domain: 'example.com' }
+			})
+		).toThrow('requires path "/" and no domain')
+
+		expect(() =>
+			jwt({
+				secret: 'A',
+				cookie: { name: '__Secure-session', secure: false }
+			})
+		).toThrow('requires secure')
+	})
+})
@@ -0,0 +1,71 @@
+import { t } from 'elysia'
+import { z } from 'zod'
+
+import { jwt } from '../src'
+
+import { describe, expect, it } from 'bun:test'
+
+describe('Decode', () => {
+	const { sign, decode, decodeHeader } = jwt({
+		secret: 'A',
+		kid: 'shirakami',
+		schema: t.Object({
+			name: t.String()
+		})
+	}).decorator.jwt
+
+	it('decode payload without verification', async () => {
+		const token = await sign({ name: 'Shirakami', exp: '1h' })
+		const { decode: decodeWithOtherSecret } = jwt({
+			secret: 'B'
+		}).decorator.jwt
+
+		const payload = await decodeWithOtherSecret(token)
+
+		expect(payload).toMatchObject({ name: 'Shirakami' })
+		expect(payload?.exp).toBeNumber()
+		expect((await decode(token))?.name).toBe('Shirakami')
+	})
+
+	it('type payload as the schema input', async () => {
+		const { sign, decode } = jwt({
+			secret: 'A',
+			schema: z.object({ since: z.coerce.date<string>() })
+		}).decorator.jwt
+
+		const payload = await decode(await sign({ since: '2024-12-05' }))
+		const since: string | undefined = payload?.since
+
+		expect(since).toBe('2024-12-05')
+	})
+
+	it('decode header', async () => {
+		const token = await sign({ name: 'Shirakami' })
+
+		expect(decodeHeader(token)).toEqual({
+			alg: 'HS256',
+			kid: 'shirakami',
+			typ: 'JWT'
+		})
+	})
+
+	it('return undefined on malformed token', async () => {
+		for (const token of [undefined, '', 'a.b.c', 'not-a-token', '...'])
+			expect(await decode(token)).toBeUndefined()
+
+		expect(decodeHeader('a.b.c')).toBeUndefined()
+		expect(decodeHeader(undefined)).toBeUndefined()
+	})
+
+	it('decrypt encrypted token', async () => {
+		const secret = crypto.getRandomValues(new Uint8Array(32))
+		const { sign, decode, decodeHeader } = jwt({
+			encryption: { secret }
+		}).decorator.jwt
+
+		const token = await sign({ sub: 'shirakami' })
+
+		expect(await decode(token)).toMatchObject({ sub: 'shirakami' })
+		expect(decodeHeader(token)).toMatchObject({ alg: 'dir' })
+	})
+})
@@ -0,0 +1,211 @@
+import { Elysia } from 'elysia'
+import {
+	SignJWT,
+	base64url,
+	calculateJwkThumbprint,
+	decodeJwt,
+	exportJWK,
+	generateKeyPair,
+	type CryptoKey,
+	type JWK
+} from 'jose'
+
+import { jwt } from '../src'
+
+import { describe, expect, it } from 'bun:test'
+
+const url = 'http://localhost/profile'
+
+const createClient = async () => {
+	const { privateKey, publicKey } = await generateKeyPair('ES256')
+
+	return { privateKey, jwk: await exportJWK(publicKey) }
+}
+
+const createProof = async (
+	{ privateKey, jwk }: { privateKey: CryptoKey; jwk: JWK },
+	{
+		htm = 'GET',
+		htu = url,
+		accessToken
+	}: { htm?: string; htu?: string; accessToken?: string } = {}
+) =>
+	new SignJWT({
+		htm,
+		htu,
+		jti: crypto.randomUUID(),
+		...(accessToken && {
+			ath: base64url.encode(
+				new Uint8Array(
+					await crypto.subtle.digest(
+						'SHA-256',
+						new TextEncoder().encode(accessToken)
+					)
+				)
+			)
+		})
+	})
+		.setProtectedHeader({ alg: 'ES256', typ: 'dpop+jwt', jwk })
+		.setIssuedAt()
+		.sign(privateKey)
+
+const request = (token: string, proof?: string, scheme = 'DPoP') =>
+	new Request(url, {
+		headers: {
+			authorization: `${scheme} ${token}`,
+			...(proof && { dpop: proof })
+		}
+	})
+
+describe('DPoP', () => {
+	const app = new Elysia()
+		.use(jwt({ secret: 'A', dpop: true }))
+		.get('/profile', ({ payload }) => payload.sub, { jwt: true })
+
+	const { sign, verifyDPoP, verifyDPoPProof } = app.decorator.jwt
+
+	it('bind token to the proof key', async () => {
+		const client = await createClient()
+
+		const proof = await verifyDPoPProof(
+			new Request('http://localhost/token', {
+				method: 'POST',
+				headers: {
+					dpop: await createProof(client, {
+						htm: 'POST',
+						htu: 'http://localhost/token'
+					})
+				}
+			})
+		)
+		if (!proof.success) throw new Error('Expected proof to be valid')
+
+		expect(proof.jkt).toBe(await calculateJwkThumbprint(client.jwk))
+
+		const token = await sign({ sub: 'shirakami' }, { dpop: proof.jkt })
+
+		expect(decodeJwt(token).cnf).toEqual({ jkt: proof.jkt })
+	})
+
+	it('verify token with proof', async () => {
+		const client = await createClient()
+		const token = await sign({ sub: 'shirakami' }, { dpop: client.jwk })
+
+		const result = await verifyDPoP(
+			request(token, await createProof(client, { accessToken: token }))
+		)
+		if (!result.success) throw new Error('Expected token to be valid')
+
+		expect(result.payload.sub).toBe('shirakami')
+	})
+
+	it('reject replayed proof', async () => {
+		const client = await createClient()
+		const token = await sign({ sub: 'shirakami' }, { dpop: client.jwk })
+		const proof = await createProof(client, { accessToken: token })
+
+		expect((await verifyDPoP(request(token, proof))).success).toBe(true)
+
+		const replayed = await verifyDPoP(request(token, proof))
+		if (replayed.success) throw new Error('Expected proof to be rejected')
+
+		expect(replayed.error.code).toBe('reused')
+	})
+
+	it('reject proof for another request', async () => {
+		const client = await createClient()
+		const token = await sign({ sub: 'shirakami' }, { dpop: client.jwk })
+
+		for (const [claim, proof] of [
+			[
+				'htm',
+				await createProof(client, { htm: 'POST', accessToken: token })
+			],
+			[
+				'htu',
+				await createProof(client, {
+					htu: 'http://localhost/admin',
+					accessToken: token
+				})
+			],
+			['ath', await createProof(client, { accessToken: 'other' })]
+		]) {
+			const result = await verifyDPoP(request(token, proof))
+			if (result.success) throw new Error('Expected proof to be rejected')
+
+			expect(result.error).toMatchObject({
+				code: 'claim_mismatch',
+				claim
+			})
+		}
+	})
+
+	it('reject proof of another key', async () => {
+		const client = await createClient()
+		const attacker = await createClient()
+		const token = await sign({ sub: 'shirakami' }, { dpop: client.jwk })
+
+		const result = await verifyDPoP(
+			request(token, await createProof(attacker, { accessToken: token }))
+		)
+		if (result.success) throw new Error('Expected proof to be rejected')
+
+		expect(result.error).toMatchObject({
+			code: 'claim_mismatch',
+			claim: 'cnf'
+		})
+	})
+
+	it('guard route with DPoP bound token', async () => {
+		const client = await createClient()
+		const token = await sign({ sub: 'shirakami' }, { dpop: client.jwk })
+
+		const response = await app.handle(
+			request(token, await createProof(client, { accessToken: token }))
+		)
+
+		expect(response.status).toBe(200)
+		expect(await response.text()).toBe('shirakami')
+
+		const withoutProof = await app.handle(request(token))
+
+		expect(withoutProof.status).toBe(401)
+		expect(withoutProof.headers.get('www-authenticate')).toStartWith(
+			'DPoP error="invalid_dpop_proof"'
+		)
+	})
+
+	it('reject bound token used as bearer token', async () => {
+		const client = await createClient()
+		const token = await sign({ sub: 'shirakami' }, { dpop: client.jwk })
+
+		const response = await app.handle(
+			request(
+				token,
+				await createProof(client, { accessToken: token }),
+				'Bearer'
+			)
+		)
+
+		expect(response.status).toBe(401)
+		expect(response.headers.get('www-authenticate')).toStartWith(
+			'DPoP error="invalid_token"'
+		)
+	})
+
+	it('accept bearer token unless required', async () => {
+		const token = await sign({ sub: 'shirakami' })
+
+		expect(
+			(await app.handle(request(token, undefined, 'Bearer'))).status
+		).toBe(200)
+
+		const strict = new Elysia()
+			.use(jwt({ secret: 'A', dpop: { required: true } }))
+			.get('/profile', ({ payload }) => payload.sub, { jwt: true })
+
+		expect(
+			(await strict.handle(request(token, undefined, 'Bearer'))).status
+		).toBe(401)
+	})
+})
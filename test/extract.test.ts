@@ -0,0 +1,89 @@
+import { Elysia } from 'elysia'
+
+import { jwt } from '../src'
+
+import { describe, expect, it } from 'bun:test'
+
+describe('Token Extraction', async () => {
+	const app = new Elysia()
+		.use(
+			jwt({
+				secret: 'A',
+				extractor: [
+					{ header: 'authorization', scheme: 'Bearer' },
+					{ cookie: 'auth' },
+					{ query: 'token' }
+				]
+			})
+		)
+		.get('/source', async ({ jwt, headers, cookie, query }) => {
+			const extracted = await jwt.extract({ headers, cookie, query })
+
+			return extracted ? `${extracted.source}:${extracted.name}` : 'none'
+		})
+		.get('/profile', ({ payload }) => payload.sub, {
+			jwt: true
+		})
+
+	const token = await app.decorator.jwt.sign({ sub: 'shirakami' })
+
+	const request = (path: string, headers: Record<string, string> = {}) =>
+		app
+			.handle(new Request(`http://localhost${path}`, { headers }))
+			.then((response) => response.text())
+
+	it('extract token from header', async () => {
+		expect(
+			await request('/source', { authorization: `Bearer ${token}` })
+		).toBe('header:authorization')
+	})
+
+	it('extract token from cookie', async () => {
+		expect(await request('/source', { cookie: `auth=${token}` })).toBe(
+			'cookie:auth'
+		)
+		expect(await request('/profile', { cookie: `auth=${token}` })).toBe(
+			'shirakami'
+		)
+	})
+
+	it('extract token from query', async () => {
+		expect(await request(`/source?token=${token}`)).toBe('query:token')
+		expect(await request(`/profile?token=${token}`)).toBe('shirakami')
+	})
+
+	it('look up sources in order', async () => {
+		expect(
+			await request(`/source?token=${token}`, {
+				cookie: `auth=${token}`
+			})
+		).toBe('cookie:auth')
+	})
+
+	it('ignore header with a different scheme', async () => {
+		expect(
+			await request('/source', { authorization: `Basic ${token}` })
+		).toBe('none')
+	})
+
+	it('accept custom extractor', async () => {
+		const app = new Elysia()
+			.use(
+				jwt({
+					secret: 'A',
+					extractor: ({ headers }) => headers['x-token']
+				})
+			)
+			.get('/profile', ({ payload }) => payload.sub, {
+				jwt: true
+			})
+
+		const response = await app.handle(
+			new Request('http://localhost/profile', {
+				headers: { 'x-token': token }
+			})
+		)
+
+		expect(await response.text()).toBe('shirakami')
+	})
+})
@@ -0,0 +1,119 @@
+import {
+	jwt,
+	type JWTSignEvent,
+	type JWTVerifyErrorEvent,
+	type JWTVerifyEvent
+} from '../src'
+
+import { describe, expect, it } from 'bun:test'
+
+// Hooks run in the background
+const flush = () => Bun.sleep(0)
+
+describe('Hooks', () => {
+	it('call onSign with header and registered claims', async () => {
+		const events: JWTSignEvent[] = []
+		const { sign } = jwt({
+			secret: 'A',
+			kid: 'main',
+			onSign: (event) => events.push(event)
+		}).decorator.jwt
+
+		await sign({
+			sub: 'shirakami',
+			jti: 'session',
+			email: 'fubuki@example.com',
+			exp: '1h'
+		})
+		await flush()
+
+		expect(events).toHaveLength(1)
+
+		const [{ header, claims, duration, token }] = events
+
+		expect(header).toEqual({ alg: 'HS256', kid: 'main', typ: 'JWT' })
+		expect(claims).toEqual({
+			sub: 'shirakami',
+			jti: 'session',
+			exp: expect.any(Number),
+			iat: expect.any(Number)
+		})
+		expect(duration).toBeGreaterThanOrEqual(0)
+		expect(token).toBeUndefined()
+	})
+
+	it('call onVerify with verified claims', async () => {
+		const events: JWTVerifyEvent[] = []
+		const { sign, verify } = jwt({
+			secret: 'A',
+			onVerify: (event) => events.push(event)
+		}).decorator.jwt
+
+		await verify(await sign({ sub: 'shirakami' }))
+		await flush()
+
+		expect(events).toHaveLength(1)
+		expect(events[0].claims.sub).toBe('shirakami')
+		expect(events[0].header.alg).toBe('HS256')
+	})
+
+	it('call onVerifyError with failure reason', async () => {
+		const events: JWTVerifyErrorEvent[] = []
+		const { sign, verify } = jwt({
+			secret: 'A',
+			onVerifyError: (event) => events.push(event)
+		}).decorator.jwt
+
+		const { sign: forge } = jwt({ secret: 'B' }).decorator.jwt
+
+		await verify(await sign({ sub: 'shirakami', exp: 0 }))
+		await verify(await forge({ sub: 'shirakami' }))
+		await verify('invalid')
+		await verify()
+		await flush()
+
+		expect(events.map(({ error }) => error.code)).toEqual([
+			'expired',
+			'invalid_signature',
+			'malformed',
+			'missing'
+		])
+		expect(events[1]).toMatchObject({
+			header: { alg: 'HS256' },
+			claims: { sub: 'shirakami' }
+		})
+		expect(events[2].header).toBeUndefined()
+		expect(events.every(({ token }) => token === undefined)).toBe(true)
+	})
+
+	it('expose token to hooks', async () => {
+		const events: JWTVerifyEvent[] = []
+		const { sign, verify } = jwt({
+			secret: 'A',
+			exposeTokenToHooks: true,
+			onVerify: (event) => events.push(event)
+		}).decorator.jwt
+
+		const token = await sign({ sub: 'shirakami' })
+		await verify(token)
+		await flush()
+
+		expect(events[0].token).toBe(token)
+	})
+
+	it('ignore hook errors', async () => {
+		const { sign, verify } = jwt({
+			secret: 'A',
+			onSign() {
+				throw new Error('Log unavailable')
+			},
+			onVerify: async () => {
+				throw new Error('Log unavailable')
+			}
+		}).decorator.jwt
+
+		expect(await verify(await sign({ sub: 'shirakami' }))).toMatchObject({
+			sub: 'shirakami'
+		})
+	})
+})
@@ -0,0 +1,131 @@
+import { t } from 'elysia'
+import { decodeProtectedHeader, generateKeyPair } from 'jose'
+
+import { jwt } from '../src'
+
+import { describe, expect, it } from 'bun:test'
+
+const secret = crypto.getRandomValues(new Uint8Array(32))
+
+describe('JWE', () => {
+	it('encrypt and decrypt with dir', async () => {
+		const { sign, verify } = jwt({
+			encryption: { secret },
+			schema: t.Object({
+				email: t.String()
+			})
+		}).decorator.jwt
+
+		const token = await sign({ email: 'fubuki@hololive.tv' })
+
+		expect(token.split('.')).toHaveLength(5)
+		expect(token).not.toContain(btoa('fubuki'))
+		expect(decodeProtectedHeader(token)).toMatchObject({
+			alg: 'dir',
+			enc: 'A256GCM',
+			typ: 'JWT'
+		})
+
+		const payload = await verify(token)
+		if (!payload) throw new Error('Expected verification to pass')
+
+		expect(payload.email).toBe('fubuki@hololive.tv')
+	})
+
+	it('encrypt with RSA-OAEP-256', async () => {
+		const { privateKey, publicKey } = await generateKeyPair(
+			'RSA-OAEP-256',
+			{ extractable: true }
+		)
+
+		const { sign } = jwt({
+			encryption: { alg: 'RSA-OAEP-256', publicKey }
+		}).decorator.jwt
+
+		const { verify } = jwt({
+			encryption: { alg: 'RSA-OAEP-256', privateKey }
+		}).decorator.jwt
+
+		const token = await sign({ sub: 'shirakami' })
+
+		expect(await verify(token)).toMatchObject({ sub: 'shirakami' })
+	})
+
+	it('encrypt with ECDH-ES', async () => {
+		const { privateKey } = await generateKeyPair('ECDH-ES', {
+			crv: 'P-256',
+			extractable: true
+		})
+
+		const { sign, verify } = jwt({
+			encryption: { alg: 'ECDH-ES', privateKey }
+		}).decorator.jwt
+
+		const token = await sign({ sub: 'shirakami' })
+
+		expect(decodeProtectedHeader(token).epk).toBeDefined()
+		expect(await verify(token)).toMatchObject({ sub: 'shirakami' })
+	})
+
+	it('sign then encrypt nested token', async () => {
+		const { sign, verify } = jwt({
+			secret: 'A',
+			encryption: { secret, nested: true }
+		}).decorator.jwt
+
+		const token = await sign({ sub: 'shirakami' })
+
+		expect(decodeProtectedHeader(token).cty).toBe('JWT')
+		expect(await verify(token)).toMatchObject({ sub: 'shirakami' })
+
+		const { verify: verifyWithOtherSecret } = jwt({
+			secret: 'B',
+			encryption: { secret, nested: true }
+		}).decorator.jwt
+
+		expect(await verifyWithOtherSecret(token)).toBe(false)
+	})
+
+	it('reject token encrypted with another key', async () => {
+		const { sign } = jwt({ encryption: { secret } }).decorator.jwt
+		const { verifyResult } = jwt({
+			encryption: {
+				secret: crypto.getRandomValues(new Uint8Array(32))
+			}
+		}).decorator.jwt
+
+		const result = await verifyResult(await sign({ sub: 'shirakami' }))
+		if (result.success) throw new Error('Expected verification to fail')
+
+		expect(result.error.code).toBe('invalid_signature')
+	})
+
+	it('reject signed token', async () => {
+		const { sign } = jwt({ secret: 'A' }).decorator.jwt
+		const { verify } = jwt({
+			secret: 'A',
+			encryption: { secret, nested: true }
+		}).decorator.jwt
+
+		expect(await verify(await sign({ sub: 'shirakami' }))).toBe(false)
+	})
+
+	it('enforce expiration', async () => {
+		const { sign, verifyResult } = jwt({
+			encryption: { secret }
+		}).decorator.jwt
+
+		const result = await verifyResult(
+			await sign({ exp: Math.floor(Date.now() / 1000) - 60 })
+		)
+		if (result.success) throw new Error('Expected verification to fail')
+
+		expect(result.error.code).toBe('expired')
+	})
+
+	it('throw on secret of wrong length', () => {
+		expect(() => jwt({ encryption: { secret: 'short' } })).toThrow(
+			'"A256GCM" requires a 32 bytes secret'
+		)
+	})
+})
@@ -0,0 +1,201 @@
+import { exportJWK, generateKeyPair, SignJWT, type JWK } from 'jose'
+
+import { Elysia } from 'elysia'
+
+import { jwt } from '../src'
+
+import { afterAll, beforeEach, describe, expect, it } from 'bun:test'
+
+const createKey = async (kid: string) => {
+	const { publicKey, privateKey } = await generateKeyPair('ES256')
+
+	return {
+		kid,
+		privateKey,
+		jwk: { ...(await exportJWK(publicKey)), kid, alg: 'ES256' } as JWK
+	}
+}
+
+const signWith = (key: Awaited<ReturnType<typeof createKey>>) =>
+	new SignJWT({ name: 'Shirakami' })
+		.setProtectedHeader({ alg: 'ES256', kid: key.kid })
+		.setExpirationTime('5m')
+		.sign(key.privateKey)
+
+describe('JWKS', async () => {
+	const first = await createKey('first')
+	const second = await createKey('second')
+
+	let published: JWK[] = []
+	let requests = 0
+	let failing = false
+
+	const server = Bun.serve({
+		port: 0,
+		fetch() {
+			requests++
+
+			if (failing) return new Response('Unavailable', { status: 503 })
+
+			return Response.json({ keys: published })
+		}
+	})
+
+	const url = `http://localhost:${server.port}/.well-known/jwks.json`
+
+	beforeEach(() => {
+		published = [first.jwk]
+		requests = 0
+		failing = false
+	})
+
+	afterAll(() => server.stop(true))
+
+	it('verify token against remote JWKS', async () => {
+		const { verify } = jwt({ jwks: url }).decorator.jwt
+
+		expect(await verify(await signWith(first))).toMatchObject({
+			name: 'Shirakami'
+		})
+	})
+
+	it('cache key set between verification', async () => {
+		const { verify } = jwt({ jwks: url }).decorator.jwt
+		const token = await signWith(first)
+
+		await verify(token)
+		await verify(token)
+		await verify(token)
+
+		expect(requests).toBe(1)
+	})
+
+	it('refetch on unknown kid', async () => {
+		const { verify } = jwt({ jwks: { url, cooldown: 0 } }).decorator.jwt
+
+		await verify(await signWith(first))
+
+		published = [first.jwk, second.jwk]
+
+		expect(await verify(await signWith(second))).toMatchObject({
+			name: 'Shirakami'
+		})
+		expect(requests).toBe(2)
+	})
+
+	it('only refetch unknown kid once per cooldown', async () => {
+		const { verify } = jwt({ jwks: { url, cooldown: '1m' } }).decorator.jwt
+
+		await verify(await signWith(first))
+
+		published = [first.jwk, second.jwk]
+
+		expect(await verify(await signWith(second))).toBe(false)
+		expect(requests).toBe(1)
+	})
+
+	it('fallback to stale keys when fetch fails', async () => {
+		const { verify } = jwt({ jwks: { url, ttl: 0, cooldown: 0 } }).decorator
+			.jwt
+		const token = await signWith(first)
+
+		await verify(token)
+
+		failing = true
+
+		expect(await verify(token)).toMatchObject({ name: 'Shirakami' })
+		expect(requests).toBe(2)
+	})
+
+	it('accept custom fetcher', async () => {
+		const { verify } = jwt({
+			jwks: async () => ({ keys: [second.jwk] })
+		}).decorator.jwt
+
+		expect(await verify(await signWith(second))).toMatchObject({
+			name: 'Shirakami'
+		})
+		expect(await verify(await signWith(first))).toBe(false)
+	})
+
+	it('verify local and remote tokens together', async () => {
+		const { sign, verify } = jwt({
+			secret: 'local secret',
+			jwks: async () => ({ keys: [second.jwk] })
+		}).decorator.jwt
+
+		expect(await verify(await signWith(second))).toMatchObject({
+			name: 'Shirakami'
+		})
+		expect(await verify(await sign({ name: 'Fubuki' }))).toMatchObject({
+			name: 'Fubuki'
+		})
+	})
+
+	it('reject sign without local secret', async () => {
+		const { sign } = jwt({ jwks: url }).decorator.jwt
+
+		await expect(sign({})).rejects.toThrow()
+	})
+})
+
+describe('Publish JWKS', async () => {
+	const { privateKey } = await generateKeyPair('ES256', {
+		extractable: true
+	})
+
+	const app = new Elysia().use(
+		jwt({
+			publishJWKS: true,
+			keys: [
+				{ kid: 'es', secret: privateKey, alg: 'ES256', active: true },
+				{ kid: 'hs', secret: 'symmetric secret' }
+			]
+		})
+	)
+
+	const getJWKS = () =>
+		app
+			.handle(new Request('http://localhost/.well-known/jwks.json'))
+			.then((response) => response.json())
+
+	it('publish only the public half of asymmetric keys', async () => {
+		const response = await app.handle(
+			new Request('http://localhost/.well-known/jwks.json')
+		)
+		const { keys } = await response.json()
+
+		expect(response.headers.get('cache-control')).toBe(
+			'public, max-age=600'
+		)
+		expect(keys).toHaveLength(1)
+		expect(keys[0]).toMatchObject({
+			kty: 'EC',
+			kid: 'es',
+			alg: 'ES256',
+			use: 'sig'
+		})
+		expect(keys[0].d).toBeUndefined()
+	})
+
+	it('verify token from sign with published key set', async () => {
+		const token = await app.decorator.jwt.sign({ name: 'Shirakami' })
+
+		const { verify } = jwt({ jwks: getJWKS }).decorator.jwt
+
+		expect(await verify(token)).toMatchObject({ name: 'Shirakami' })
+	})
+
+	it('mount on custom path', async () => {
+		const app = new Elysia().use(
+			jwt({
+				publishJWKS: '/keys',
+				keys: [{ kid: 'es', secret: privateKey, alg: 'ES256' }]
+			})
+		)
+
+		const response = await app.handle(new Request('http://localhost/keys'))
+
+		expect(response.status).toBe(200)
+	})
+})
@@ -0,0 +1,195 @@
+import {
+	decodeProtectedHeader,
+	exportJWK,
+	exportPKCS8,
+	exportSPKI,
+	generateKeyPair
+} from 'jose'
+
+import { jwt, type JWTOption } from '../src'
+
+import { describe, expect, it } from 'bun:test'
+
+const signer = (options: JWTOption) => jwt(options).decorator.jwt
+
+describe('Key Ring', () => {
+	it('sign with the active key and stamp its kid', async () => {
+		const { sign, verify } = signer({
+			keys: [
+				{ kid: 'old', secret: 'old secret' },
+				{ kid: 'new', secret: 'new secret', active: true }
+			]
+		})
+
+		const token = await sign({ name: 'Shirakami' })
+
+		expect(decodeProtectedHeader(token).kid).toBe('new')
+		expect(await verify(token)).toMatchObject({ name: 'Shirakami' })
+	})
+
+	it('verify a token signed by a retired key', async () => {
+		const previous = signer({
+			keys: [{ kid: 'old', secret: 'old secret' }]
+		})
+
+		const current = signer({
+			keys: [
+				{ kid: 'new', secret: 'new secret', active: true },
+				{
+					kid: 'old',
+					secret: 'old secret',
+					// Unix timestamp in seconds, like `exp`
+					verifyUntil: Math.floor(Date.now() / 1000) + 3600
+				}
+			]
+		})
+
+		const token = await previous.sign({ name: 'Fubuki' })
+
+		expect(await current.verify(token)).toMatchObject({ name: 'Fubuki' })
+	})
+
+	it('reject a token once its key passed the cutoff', async () => {
+		const previous = signer({
+			keys: [{ kid: 'old', secret: 'old secret' }]
+		})
+
+		const current = signer({
+			keys: [
+				{ kid: 'new', secret: 'new secret', active: true },
+				{
+					kid: 'old',
+					secret: 'old secret',
+					verifyUntil: new Date(Date.now() - 1000)
+				}
+			]
+		})
+
+		expect(await current.verify(await previous.sign({}))).toBe(false)
+	})
+
+	it('throw on an invalid verifyUntil', () => {
+		expect(() =>
+			jwt({
+				keys: [
+					{ kid: 'new', secret: 'new secret', active: true },
+					{
+						kid: 'old',
+						secret: 'old secret',
+						verifyUntil: '2020-13-45'
+					}
+				]
+			})
+		).toThrow('not a valid date')
+	})
+
+	it('throw when the active key is past its cutoff', () => {
+		expect(() =>
+			jwt({
+				keys: [
+					{
+						kid: 'old',
+						secret: 'old secret',
+						verifyUntil: new Date(Date.now() - 1000)
+					},
+					{ kid: 'new', secret: 'new secret' }
+				]
+			})
+		).toThrow('past its verifyUntil')
+	})
+
+	it('stop signing once the active key is retired', async () => {
+		const { sign } = signer({
+			keys: [
+				{
+					kid: 'old',
+					secret: 'old secret',
+					active: true,
+					verifyUntil: new Date(Date.now() + 100)
+				}
+			]
+		})
+
+		expect(await sign({})).toBeString()
+
+		await Bun.sleep(150)
+
+		await expect(sign({})).rejects.toThrow('is retired')
+	})
+
+	it('reject a token with an unknown kid', async () => {
+		const other = signer({ keys: [{ kid: 'other', secret: 'new secret' }] })
+		const current = signer({ keys: [{ kid: 'new', secret: 'new secret' }] })
+
+		expect(await current.verify(await other.sign({}))).toBe(false)
+	})
+
+	it('throw when more than one key is active', () => {
+		expect(() =>
+			jwt({
+				keys: [
+					{ kid: 'a', secret: 'a', active: true },
+					{ kid: 'b', secret: 'b', active: true }
+				]
+			})
+		).toThrow()
+	})
+})
+
+describe('Asymmetric Keys', async () => {
+	const rsa = await generateKeyPair('RS256', { extractable: true })
+	const privatePEM = await exportPKCS8(rsa.privateKey)
+	const publicPEM = await exportSPKI(rsa.publicKey)
+
+	it('sign with PEM private key and verify with PEM public key', async () => {
+		const signing = signer({ alg: 'RS256', privateKey: privatePEM })
+		const verifying = signer({ alg: 'RS256', publicKey: publicPEM })
+
+		const token = await signing.sign({ name: 'Shirakami' })
+
+		expect(decodeProtectedHeader(token).alg).toBe('RS256')
+		expect(await verifying.verify(token)).toMatchObject({
+			name: 'Shirakami'
+		})
+		expect(await signing.verify(token)).toMatchObject({
+			name: 'Shirakami'
+		})
+	})
+
+	it('detect PEM passed as secret', async () => {
+		const { sign, verify } = signer({ alg: 'RS256', secret: privatePEM })
+
+		expect(await verify(await sign({ name: 'Fubuki' }))).toMatchObject({
+			name: 'Fubuki'
+		})
+	})
+
+	it('import JWK private key', async () => {
+		const { sign, verify } = signer({
+			alg: 'RS256',
+			privateKey: await exportJWK(rsa.privateKey)
+		})
+
+		expect(await verify(await sign({ name: 'Fubuki' }))).toMatchObject({
+			name: 'Fubuki'
+		})
+	})
+
+	it('reject sign on verify-only instance', async () => {
+		const { sign } = signer({ alg: 'RS256', publicKey: publicPEM })
+
+		await expect(sign({})).rejects.toThrow()
+	})
+
+	it('throw on mismatched key and algorithm', () => {
+		expect(() => jwt({ alg: 'ES256', privateKey: privatePEM })).toThrow(
+			'can\'t be used with "ES256"'
+		)
+		expect(() => jwt({ alg: 'RS256', secret: 'hmac secret' })).toThrow(
+			'symmetric secret'
+		)
+		expect(() => jwt({ alg: 'RS256', publicKey: privatePEM })).toThrow(
+			'not a public key'
+		)
+	})
+})
@@ -0,0 +1,164 @@
+import { Elysia } from 'elysia'
+
+import { jwt, type JWTOption, type OAuthClientCredentials } from '../src'
+
+import { describe, expect, it } from 'bun:test'
+
+const basic = `Basic ${btoa('billing:billing secret')}`
+
+const authenticateClient = (client: OAuthClientCredentials) =>
+	client.type === 'basic'
+		? client.clientId === 'billing' &&
+			client.clientSecret === 'billing secret'
+		: client.token === 'service-token'
+
+const createApp = (options: Partial<JWTOption> = {}) => {
+	const plugin = jwt({
+		secret: 'A',
+		revocation: true,
+		oauth: { authenticateClient },
+		...options
+	})
+
+	return {
+		app: new Elysia().use(plugin),
+		...plugin.decorator.jwt
+	}
+}
+
+const post = (
+	path: string,
+	params: Record<string, string>,
+	authorization = basic
+) =>
+	new Request(`http://localhost${path}`, {
+		method: 'POST',
+		headers: {
+			authorization,
+			'content-type': 'application/x-www-form-urlencoded'
+		},
+		body: new URLSearchParams(params)
+	})
+
+describe('OAuth Endpoints', () => {
+	it('introspect active token', async () => {
+		const { app, sign } = createApp()
+		const token = await sign({ sub: 'shirakami', scope: 'orders:read' })
+
+		const response = await app.handle(post('/oauth/introspect', { token }))
+
+		expect(response.status).toBe(200)
+		expect(await response.json()).toMatchObject({
+			active: true,
+			sub: 'shirakami',
+			scope: 'orders:read',
+			token_type: 'Bearer'
+		})
+	})
+
+	it('introspect inactive token', async () => {
+		const { app, sign } = createApp()
+		const token = await sign({ sub: 'shirakami', exp: 0 })
+
+		for (const params of [{ token }, { token: 'invalid' }]) {
+			const response = await app.handle(post('/oauth/introspect', params))
+
+			expect(await response.json()).toEqual({ active: false })
+		}
+	})
+
+	it('map introspection response', async () => {
+		const { app, sign } = createApp({
+			oauth: {
+				authenticateClient,
+				introspectionResponse: ({ sub }) => ({ username: sub })
+			}
+		})
+		const token = await sign({
+			sub: 'shirakami',
+			email: 'fubuki@example.com'
+		})
+
+		const response = await app.handle(
+			post('/oauth/introspect', { token }, 'Bearer service-token')
+		)
+
+		expect(await response.json()).toEqual({
+			username: 'shirakami',
+			active: true
+		})
+	})
+
+	it('require client authentication', async () => {
+		const { app, sign } = createApp()
+		const token = await sign({ sub: 'shirakami' })
+
+		for (const authorization of [
+			`Basic ${btoa('billing:wrong')}`,
+			'Bearer wrong',
+			''
+		]) {
+			const response = await app.handle(
+				post('/oauth/introspect', { token }, authorization)
+			)
+
+			expect(response.status).toBe(401)
+			expect(await response.json()).toEqual({ error: 'invalid_client' })
+		}
+
+		expect((await app.handle(post('/oauth/introspect', {}))).status).toBe(
+			400
+		)
+	})
+
+	it('revoke access token', async () => {
+		const { app, sign, verify } = createApp()
+		const token = await sign({ sub: 'shirakami' })
+
+		const response = await app.handle(post('/oauth/revoke', { token }))
+
+		expect(response.status).toBe(200)
+		expect(await verify(token)).toBe(false)
+
+		// Revoking an invalid token succeeds
+		expect(
+			(await app.handle(post('/oauth/revoke', { token: 'invalid' })))
+				.status
+		).toBe(200)
+	})
+
+	it('revoke refresh token family', async () => {
+		const { app, issuePair, refresh } = createApp()
+		const { refreshToken } = await issuePair({ sub: 'shirakami' })
+
+		await app.handle(post('/oauth/revoke', { token: refreshToken }))
+
+		const result = await refresh(refreshToken)
+		if (result.success) throw new Error('Expected family to be revoked')
+
+		expect(result.error.code).toBe('revoked')
+	})
+
+	it('only revoke token issued to the client', async () => {
+		const { app, sign, verify } = createApp()
+		const token = await sign({ sub: 'shirakami', client_id: 'shipping' })
+
+		const response = await app.handle(post('/oauth/revoke', { token }))
+
+		expect(response.status).toBe(400)
+		expect(await response.json()).toEqual({ error: 'unauthorized_client' })
+		expect(await verify(token)).toMatchObject({ sub: 'shirakami' })
+	})
+
+	it('reject access token without revocation', async () => {
+		const { app, sign } = createApp({ revocation: undefined })
+		const token = await sign({ sub: 'shirakami' })
+
+		const response = await app.handle(post('/oauth/revoke', { token }))
+
+		expect(response.status).toBe(400)
+		expect(await response.json()).toEqual({
+			error: 'unsupported_token_type'
+		})
+	})
+})
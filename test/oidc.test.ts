@@ -0,0 +1,208 @@
+import {
+	SignJWT,
+	base64url,
+	exportJWK,
+	generateKeyPair,
+	type JWTPayload
+} from 'jose'
+
+import { jwt } from '../src'
+
+import { afterAll, describe, expect, it } from 'bun:test'
+
+const now = () => Math.floor(Date.now() / 1000)
+
+const leftHalfHash = async (value: string) => {
+	const digest = new Uint8Array(
+		await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value))
+	)
+
+	return base64url.encode(digest.slice(0, 16))
+}
+
+describe('OpenID Connect', async () => {
+	const { publicKey, privateKey } = await generateKeyPair('RS256')
+	const jwk = {
+		...(await exportJWK(publicKey)),
+		kid: 'provider',
+		alg: 'RS256'
+	}
+
+	let discoveryRequests = 0
+
+	const server = Bun.serve({
+		port: 0,
+		fetch(request) {
+			const { origin, pathname } = new URL(request.url)
+
+			if (pathname === '/.well-known/openid-configuration') {
+				discoveryRequests++
+
+				return Response.json({
+					issuer: origin,
+					jwks_uri: `${origin}/jwks`,
+					id_token_signing_alg_values_supported: ['RS256']
+				})
+			}
+
+			if (pathname === '/jwks') return Response.json({ keys: [jwk] })
+
+			return new Response('Not Found', { status: 404 })
+		}
+	})
+
+	const issuer = `http://localhost:${server.port}`
+
+	afterAll(() => server.stop(true))
+
+	const signIdToken = (claims: JWTPayload = {}) =>
+		new SignJWT({ sub: 'shirakami', aud: 'client', ...claims })
+			.setProtectedHeader({ alg: 'RS256', kid: 'provider' })
+			.setIssuer(issuer)
+			.setIssuedAt()
+			.setExpirationTime('5m')
+			.sign(privateKey)
+
+	const { verifyIdToken } = jwt({
+		oidc: { issuer, clientId: 'client' }
+	}).decorator.jwt
+
+	const expectMismatch = async (
+		token: Promise<string>,
+		claim: string,
+		options?: Parameters<typeof verifyIdToken>[1]
+	) => {
+		const result = await verifyIdToken(await token, options)
+		if (result.success) throw new Error('Expected ID token to be rejected')
+
+		expect(result.error).toMatchObject({ code: 'claim_mismatch', claim })
+	}
+
+	it('verify ID token with discovered keys', async () => {
+		const result = await verifyIdToken(
+			await signIdToken({
+				email: 'fubuki@example.com',
+				email_verified: true
+			})
+		)
+		if (!result.success) throw new Error('Expected ID token to be valid')
+
+		const email: string | undefined = result.payload.email
+
+		expect(email).toBe('fubuki@example.com')
+		expect(result.payload.email_verified).toBe(true)
+		expect(discoveryRequests).toBe(1)
+	})
+
+	it('check issuer and audience', async () => {
+		await expectMismatch(signIdToken({ aud: 'other' }), 'aud')
+		await expectMismatch(
+			new SignJWT({ sub: 'shirakami', aud: 'client' })
+				.setProtectedHeader({ alg: 'RS256', kid: 'provider' })
+				.setIssuer('https://example.com')
+				.setIssuedAt()
+				.setExpirationTime('5m')
+				.sign(privateKey),
+			'iss'
+		)
+	})
+
+	it('check nonce', async () => {
+		const token = signIdToken({ nonce: 'n-0S6_WzA2Mj' })
+
+		expect(
+			(await verifyIdToken(await token, { nonce: 'n-0S6_WzA2Mj' }))
+				.success
+		).toBe(true)
+
+		await expectMismatch(token, 'nonce', { nonce: 'other' })
+		await expectMismatch(signIdToken(), 'nonce', { nonce: 'n-0S6_WzA2Mj' })
+	})
+
+	it('require azp of multi-audience token', async () => {
+		await expectMismatch(signIdToken({ aud: ['client', 'other'] }), 'azp')
+		await expectMismatch(
+			signIdToken({ aud: ['client', 'other'], azp: 'other' }),
+			'azp'
+		)
+
+		expect(
+			(
+				await verifyIdToken(
+					await signIdToken({
+						aud: ['client', 'other'],
+						azp: 'client'
+					})
+				)
+			).success
+		).toBe(true)
+	})
+
+	it('check auth_time against max age', async () => {
+		expect(
+			(
+				await verifyIdToken(
+					await signIdToken({ auth_time: now() - 60 }),
+					{ maxAge: '5m' }
+				)
+			).success
+		).toBe(true)
+
+		await expectMismatch(
+			signIdToken({ auth_time: now() - 600 }),
+			'auth_time',
+			{ maxAge: '5m' }
+		)
+		await expectMismatch(signIdToken(), 'auth_time', { maxAge: 300 })
+	})
+
+	it('check acr', async () => {
+		const token = signIdToken({ acr: 'urn:mace:incommon:iap:silver' })
+
+		expect(
+			(
+				await verifyIdToken(await token, {
+					acrValues: ['urn:mace:incommon:iap:silver']
+				})
+			).success
+		).toBe(true)
+
+		await expectMismatch(token, 'acr', {
+			acrValues: ['urn:mace:incommon:iap:gold']
+		})
+	})
+
+	it('check at_hash and c_hash', async () => {
+		const token = signIdToken({
+			at_hash: await leftHalfHash('access token'),
+			c_hash: await leftHalfHash('code')
+		})
+
+		expect(
+			(
+				await verifyIdToken(await token, {
+					accessToken: 'access token',
+					code: 'code'
+				})
+			).success
+		).toBe(true)
+
+		await expectMismatch(token, 'at_hash', { accessToken: 'other' })
+		await expectMismatch(token, 'c_hash', { code: 'other' })
+	})
+
+	it('reject discovery document of another issuer', async () => {
+		const { verifyIdToken } = jwt({
+			oidc: {
+				issuer: 'https://example.com',
+				clientId: 'client',
+				discovery: `${issuer}/.well-known/openid-configuration`
+			}
+		}).decorator.jwt
+
+		const result = await verifyIdToken(await signIdToken())
+		if (result.success) throw new Error('Expected ID token to be rejected')
+
+		expect(result.error.code).toBe('unknown')
+	})
+})
@@ -0,0 +1,99 @@
+import { decodeJwt, decodeProtectedHeader } from 'jose'
+
+import { jwt } from '../src'
+
+import { describe, expect, it } from 'bun:test'
+
+const now = () => Math.floor(Date.now() / 1000)
+
+describe('One-Time Token', () => {
+	it('consume a token once', async () => {
+		const { oneTime } = jwt({ secret: 'A' }).decorator.jwt
+
+		const token = await oneTime.create('password-reset', {
+			sub: 'shirakami'
+		})
+
+		expect(decodeProtectedHeader(token).typ).toBe('one-time+jwt')
+		expect(decodeJwt(token).purpose).toBe('password-reset')
+
+		const result = await oneTime.consume('password-reset', token)
+		if (!result.success) throw new Error('Expected token to be consumed')
+
+		expect(result.payload.sub).toBe('shirakami')
+
+		const reused = await oneTime.consume('password-reset', token)
+		if (reused.success) throw new Error('Expected token to be used once')
+
+		expect(reused.error.code).toBe('reused')
+	})
+
+	it('reject a token of another purpose', async () => {
+		const { oneTime } = jwt({ secret: 'A' }).decorator.jwt
+
+		const token = await oneTime.create('email-verification', {
+			sub: 'shirakami'
+		})
+
+		const result = await oneTime.consume('password-reset', token)
+		if (result.success) throw new Error('Expected purpose to mismatch')
+
+		expect(result.error).toMatchObject({
+			code: 'claim_mismatch',
+			claim: 'purpose'
+		})
+
+		// The token is not consumed by the mismatched purpose
+		expect(
+			(await oneTime.consume('email-verification', token)).success
+		).toBe(true)
+	})
+
+	it('not mix with access tokens', async () => {
+		const { sign, verify, oneTime } = jwt({ secret: 'A' }).decorator.jwt
+
+		const accessToken = await sign({ sub: 'shirakami', purpose: 'login' })
+		const result = await oneTime.consume('login', accessToken)
+		if (result.success) throw new Error('Expected typ to mismatch')
+
+		expect(result.error.code).toBe('claim_mismatch')
+
+		const token = await oneTime.create('login', { sub: 'shirakami' })
+
+		expect(await verify(token)).toBe(false)
+	})
+
+	it('expire with the given lifetime', async () => {
+		const { oneTime } = jwt({
+			secret: 'A',
+			oneTime: { exp: '1h' }
+		}).decorator.jwt
+
+		const token = await oneTime.create('email-verification', {})
+		expect(decodeJwt(token).exp! - now()).toBeGreaterThan(3590)
+
+		const short = await oneTime.create('password-reset', {}, 60)
+		expect(decodeJwt(short).exp! - now()).toBeLessThanOrEqual(60)
+	})
+
+	it('use a custom store', async () => {
+		const consumed: string[] = []
+		const { oneTime } = jwt({
+			secret: 'A',
+			oneTime: {
+				store: {
+					consume(jti) {
+						consumed.push(jti)
+
+						return true
+					}
+				}
+			}
+		}).decorator.jwt
+
+		const token = await oneTime.create('password-reset', {})
+		await oneTime.consume('password-reset', token)
+
+		expect(consumed).toEqual([decodeJwt(token).jti!])
+	})
+})
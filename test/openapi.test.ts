@@ -0,0 +1,122 @@
+import { Elysia } from 'elysia'
+
+import { jwt, jwtSecuritySchemes } from '../src'
+
+import { describe, expect, it } from 'bun:test'
+
+const detailOf = (app: Elysia<any, any, any, any, any, any>, path: string) =>
+	app.routes.find((route) => route.path === path)?.hooks.detail
+
+describe('OpenAPI', () => {
+	it('document responses of guarded route', () => {
+		const app = new Elysia()
+			.use(jwt({ secret: 'A' }))
+			.get('/profile', ({ payload }) => payload.sub, { jwt: true })
+
+		// The scheme isn't referenced until it's registered
+		expect(detailOf(app, '/profile')).toEqual({
+			responses: {
+				401: { description: 'Missing, invalid or expired token' }
+			}
+		})
+	})
+
+	it('document guarded route', () => {
+		const app = new Elysia()
+			.use(jwt({ secret: 'A', securityScheme: 'bearerAuth' }))
+			.get('/profile', ({ payload }) => payload.sub, { jwt: true })
+			.get('/public', () => 'hello')
+
+		expect(detailOf(app, '/profile')).toEqual({
+			security: [{ bearerAuth: [] }],
+			responses: {
+				401: { description: 'Missing, invalid or expired token' }
+			}
+		})
+		expect(detailOf(app, '/public')?.security).toBeUndefined()
+	})
+
+	it('list required scopes', () => {
+		const app = new Elysia()
+			.use(jwt({ secret: 'A', securityScheme: 'bearerAuth' }))
+			.get('/orders', () => [], {
+				jwt: {
+					requireScopes: ['orders:read'],
+					requireRoles: { any: ['admin', 'support'] }
+				},
+				detail: { summary: 'List orders' }
+			})
+
+		const detail = detailOf(app, '/orders')
+
+		expect(detail?.summary).toBe('List orders')
+		expect(detail?.security).toEqual([{ bearerAuth: ['orders:read'] }])
+		expect(detail?.responses?.[403]).toEqual({
+			description:
+				'Insufficient scope, requires all of scopes orders:read and any of roles admin, support'
+		})
+	})
+
+	it('use configured security scheme', () => {
+		const app = new Elysia()
+			.use(jwt({ secret: 'A', securityScheme: 'accessToken' }))
+			.get('/profile', () => 'hello', { jwt: true })
+
+		expect(detailOf(app, '/profile')?.security).toEqual([
+			{ accessToken: [] }
+		])
+	})
+
+	it('reference a scheme for each token source', () => {
+		const app = new Elysia()
+			.use(
+				jwt({
+					secret: 'A',
+					dpop: true,
+					securityScheme: 'accessToken'
+				})
+			)
+			.get('/profile', () => 'hello', { jwt: true })
+
+		expect(detailOf(app, '/profile')?.security).toEqual([
+			{ accessToken: [] },
+			{ accessToken2: [] }
+		])
+	})
+
+	it('skip documentation', () => {
+		const app = new Elysia()
+			.use(jwt({ secret: 'A', securityScheme: false }))
+			.get('/profile', () => 'hello', { jwt: true })
+
+		expect(detailOf(app, '/profile')).toBeUndefined()
+	})
+
+	it('create security scheme', () => {
+		expect(jwtSecuritySchemes()).toEqual({
+			bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' }
+		})
+	})
+
+	it('create security schemes matching the extractor', () => {
+		expect(
+			jwtSecuritySchemes({
+				extractor: [
+					{ cookie: 'auth' },
+					{ query: 'access_token' },
+					{ header: 'x-api-token' },
+					({ headers }) => headers['x-custom']
+				]
+			})
+		).toEqual({
+			bearerAuth: { type: 'apiKey', in: 'cookie', name: 'auth' },
+			bearerAuth2: { type: 'apiKey', in: 'query', name: 'access_token' },
+			bearerAuth3: { type: 'apiKey', in: 'header', name: 'x-api-token' }
+		})
+
+		expect(jwtSecuritySchemes({ name: 'dpopAuth', dpop: true })).toEqual({
+			dpopAuth: { type: 'http', scheme: 'DPoP' },
+			dpopAuth2: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' }
+		})
+	})
+})
@@ -0,0 +1,155 @@
+import { t } from 'elysia'
+import { decodeJwt, decodeProtectedHeader } from 'jose'
+import { z } from 'zod'
+
+import { createMemoryRefreshTokenStore, jwt } from '../src'
+
+import { describe, expect, it } from 'bun:test'
+
+describe('Refresh Token', () => {
+	const { issuePair, refresh, verify } = jwt({
+		secret: 'A',
+		schema: t.Object({
+			name: t.String()
+		}),
+		refresh: {
+			accessTokenExp: '5m',
+			refreshTokenExp: '1d'
+		}
+	}).decorator.jwt
+
+	it('issue access and refresh token', async () => {
+		const { accessToken, refreshToken } = await issuePair({
+			name: 'Shirakami'
+		})
+
+		const access = decodeJwt(accessToken)
+		const now = Math.floor(Date.now() / 1000)
+
+		expect(access.exp! - now).toBeLessThanOrEqual(300)
+		expect(decodeJwt(refreshToken).exp! - now).toBeGreaterThan(300)
+		expect(decodeProtectedHeader(refreshToken).typ).toBe('refresh+jwt')
+
+		expect(await verify(accessToken)).toMatchObject({ name: 'Shirakami' })
+	})
+
+	it('read numeric lifetimes as seconds', async () => {
+		const { issuePair, refresh } = jwt({
+			secret: 'A',
+			refresh: { accessTokenExp: 900, refreshTokenExp: 86400 }
+		}).decorator.jwt
+
+		const { accessToken, refreshToken } = await issuePair({
+			sub: 'shirakami'
+		})
+		const now = Math.floor(Date.now() / 1000)
+
+		expect(decodeJwt(accessToken).exp! - now).toBeWithin(899, 901)
+		expect(decodeJwt(refreshToken).exp! - now).toBeWithin(86399, 86401)
+		expect((await refresh(refreshToken)).success).toBe(true)
+	})
+
+	it('reject refresh token as access token', async () => {
+		const { refreshToken } = await issuePair({ name: 'Shirakami' })
+
+		expect(await verify(refreshToken)).toBe(false)
+	})
+
+	it('reject access token as refresh token', async () => {
+		const { accessToken } = await issuePair({ name: 'Shirakami' })
+		const result = await refresh(accessToken)
+
+		expect(result.success).toBe(false)
+	})
+
+	it('rotate refresh token', async () => {
+		const { refreshToken } = await issuePair({ name: 'Shirakami' })
+		const result = await refresh(refreshToken)
+
+		if (!result.success) throw new Error('Expected refresh to pass')
+
+		expect(result.payload.name).toBe('Shirakami')
+		expect(result.refreshToken).not.toBe(refreshToken)
+		expect(decodeJwt(result.refreshToken).exp).toBe(
+			decodeJwt(refreshToken).exp!
+		)
+		expect(await verify(result.accessToken)).toMatchObject({
+			name: 'Shirakami'
+		})
+	})
+
+	it('revoke family when refresh token is reused', async () => {
+		const first = await issuePair({ name: 'Shirakami' })
+		const second = await refresh(first.refreshToken)
+		if (!second.success) throw new Error('Expected refresh to pass')
+
+		const replay = await refresh(first.refreshToken)
+		if (replay.success) throw new Error('Expected refresh to fail')
+		expect(replay.error.code).toBe('reused')
+
+		const next = await refresh(second.refreshToken)
+		if (next.success) throw new Error('Expected refresh to fail')
+		expect(next.error.code).toBe('revoked')
+	})
+
+	it('re-sign claims as signed, not the schema output', async () => {
+		const { issuePair, refresh } = jwt({
+			secret: 'A',
+			schema: z.object({
+				tags: z.string().transform((tags) => tags.split(','))
+			})
+		}).decorator.jwt
+
+		const { refreshToken } = await issuePair({ tags: 'fox,friend' })
+
+		const result = await refresh(refreshToken)
+		if (!result.success) throw new Error('Expected refresh to pass')
+
+		expect(result.payload.tags).toEqual(['fox', 'friend'])
+		expect(decodeJwt(result.accessToken).tags).toBe('fox,friend')
+	})
+
+	it('keep refresh token usable when signing fails', async () => {
+		const store = createMemoryRefreshTokenStore()
+
+		const { issuePair, refresh } = jwt({
+			secret: 'A',
+			refresh: { store }
+		}).decorator.jwt
+		const { refresh: failingRefresh } = jwt({
+			secret: 'A',
+			refresh: {
+				store,
+				accessTokenExp: 'invalid'
+			}
+		}).decorator.jwt
+
+		const { refreshToken } = await issuePair({ sub: 'shirakami' })
+
+		await expect(failingRefresh(refreshToken)).rejects.toThrow()
+		expect((await refresh(refreshToken)).success).toBe(true)
+	})
+
+	it('accept custom store', async () => {
+		const families: string[] = []
+		const store = createMemoryRefreshTokenStore()
+
+		const { issuePair } = jwt({
+			secret: 'A',
+			refresh: {
+				store: {
+					...store,
+					create(family, jti, expiresAt) {
+						families.push(family)
+
+						return store.create(family, jti, expiresAt)
+					}
+				}
+			}
+		}).decorator.jwt
+
+		const { refreshToken } = await issuePair({ sub: 'shirakami' })
+
+		expect(families).toEqual([decodeJwt(refreshToken).fam as string])
+	})
+})
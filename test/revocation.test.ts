@@ -0,0 +1,91 @@
+import { Database } from 'bun:sqlite'
+import { decodeJwt } from 'jose'
+
+import { createSQLiteRevocationStore, jwt } from '../src'
+
+import { describe, expect, it } from 'bun:test'
+
+describe('Revocation', () => {
+	const { sign, verify, verifyResult, revoke, revokeAllFor } = jwt({
+		secret: 'A',
+		exp: '1h',
+		revocation: true
+	}).decorator.jwt
+
+	it('generate jti', async () => {
+		const token = await sign({ sub: 'shirakami' })
+
+		expect(decodeJwt(token).jti).toBeString()
+		expect(decodeJwt(await sign({ jti: 'fubuki' })).jti).toBe('fubuki')
+	})
+
+	it('revoke token', async () => {
+		const token = await sign({ sub: 'shirakami' })
+		const other = await sign({ sub: 'shirakami' })
+
+		await revoke(token)
+
+		expect(await verify(token)).toBe(false)
+		expect(await verify(other)).toMatchObject({ sub: 'shirakami' })
+
+		const result = await verifyResult(token)
+		if (result.success) throw new Error('Expected verification to fail')
+
+		expect(result.error.code).toBe('revoked')
+	})
+
+	it('revoke token by jti', async () => {
+		const token = await sign({ sub: 'shirakami' })
+
+		await revoke(decodeJwt(token).jti!)
+
+		expect(await verify(token)).toBe(false)
+	})
+
+	it('revoke every token of subject', async () => {
+		const token = await sign({ sub: 'shirakami' })
+		const other = await sign({ sub: 'ookami' })
+
+		await revokeAllFor('shirakami')
+
+		expect(await verify(token)).toBe(false)
+		expect(await verify(other)).toMatchObject({ sub: 'ookami' })
+	})
+
+	it('keep tokens issued after subject revocation', async () => {
+		await revokeAllFor('minato', new Date(Date.now() - 60_000))
+
+		const token = await sign({ sub: 'minato' })
+
+		expect(await verify(token)).toMatchObject({ sub: 'minato' })
+	})
+
+	it('throw when revocation is not enabled', async () => {
+		const { sign, revoke } = jwt({ secret: 'A' }).decorator.jwt
+
+		expect(decodeJwt(await sign({})).jti).toBeUndefined()
+		await expect(revoke('fubuki')).rejects.toThrow()
+	})
+
+	it('store revocation in SQLite', async () => {
+		const { sign, verify, revoke, revokeAllFor } = jwt({
+			secret: 'A',
+			exp: '1h',
+			revocation: {
+				store: createSQLiteRevocationStore(new Database(':memory:'))
+			}
+		}).decorator.jwt
+
+		const token = await sign({ sub: 'shirakami' })
+		const subject = await sign({ sub: 'ookami' })
+		const other = await sign({ sub: 'minato' })
+
+		await revoke(token)
+		await revokeAllFor('ookami')
+		await revokeAllFor('ookami')
+
+		expect(await verify(token)).toBe(false)
+		expect(await verify(subject)).toBe(false)
+		expect(await verify(other)).toMatchObject({ sub: 'minato' })
+	})
+})
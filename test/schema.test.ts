@@ -0,0 +1,97 @@
+import { t, ValidationError } from 'elysia'
+import { SignJWT } from 'jose'
+import { z } from 'zod'
+
+import { jwt } from '../src'
+
+import { describe, expect, it } from 'bun:test'
+
+const TEST_SECRET = 'A'
+
+const signRaw = (payload: Record<string, unknown>) =>
+	new SignJWT(payload)
+		.setProtectedHeader({ alg: 'HS256' })
+		.sign(new TextEncoder().encode(TEST_SECRET))
+
+describe('Schema', () => {
+	it('reject invalid payload on sign', async () => {
+		const { sign } = jwt({
+			secret: TEST_SECRET,
+			schema: t.Object({
+				name: t.String()
+			})
+		}).decorator.jwt
+
+		// @ts-expect-error
+		await expect(sign({ name: 1 })).rejects.toBeInstanceOf(ValidationError)
+	})
+
+	it('reject invalid Standard Schema payload on sign', async () => {
+		const { sign } = jwt({
+			secret: TEST_SECRET,
+			schema: z.object({
+				name: z.string()
+			})
+		}).decorator.jwt
+
+		// @ts-expect-error
+		await expect(sign({ name: 1 })).rejects.toBeInstanceOf(ValidationError)
+	})
+
+	it('reject invalid Standard Schema payload on verify', async () => {
+		const { verifyResult } = jwt({
+			secret: TEST_SECRET,
+			schema: z.object({
+				name: z.string()
+			})
+		}).decorator.jwt
+
+		const result = await verifyResult(await signRaw({ name: 1 }))
+		if (result.success) throw new Error('Expected verification to fail')
+
+		expect(result.error.code).toBe('schema_invalid')
+	})
+
+	it('return Zod transformed payload', async () => {
+		const { sign, verify } = jwt({
+			secret: TEST_SECRET,
+			schema: z.object({
+				name: z.string().transform((name) => name.toUpperCase()),
+				since: z.coerce.date()
+			})
+		}).decorator.jwt
+
+		const token = await sign({
+			name: 'Shirakami',
+			since: '2018-06-01T00:00:00.000Z',
+			exp: '1h'
+		})
+
+		const payload = await verify(token)
+		if (!payload) throw new Error('Expected verification to pass')
+
+		const since: Date = payload.since
+
+		expect(payload.name).toBe('SHIRAKAMI')
+		expect(since).toBeInstanceOf(Date)
+		expect(since.getUTCFullYear()).toBe(2018)
+		expect(payload.exp).toBeNumber()
+	})
+
+	it('return TypeBox transformed payload', async () => {
+		const { sign, verify } = jwt({
+			secret: TEST_SECRET,
+			schema: t.Object({
+				name: t
+					.Transform(t.String())
+					.Decode((name) => name.trim())
+					.Encode((name) => name)
+			})
+		}).decorator.jwt
+
+		const payload = await verify(await sign({ name: ' Shirakami ' }))
+		if (!payload) throw new Error('Expected verification to pass')
+
+		expect(payload.name).toBe('Shirakami')
+	})
+})
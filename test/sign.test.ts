@@ -0,0 +1,111 @@
+import { decodeJwt, decodeProtectedHeader, jwtVerify } from 'jose'
+
+import { jwt, type JWTOption } from '../src'
+
+import { describe, expect, it } from 'bun:test'
+
+const signer = (options: JWTOption) => jwt(options).decorator.jwt
+
+describe('Sign Option', () => {
+	it('override typ per token', async () => {
+		const { sign, verify } = signer({ secret: 'A' })
+
+		const token = await sign(
+			{ sub: 'shirakami' },
+			{ header: { typ: 'at+jwt' } }
+		)
+
+		expect(decodeProtectedHeader(token).typ).toBe('at+jwt')
+		expect(await verify(token, { typ: 'at+jwt' })).toMatchObject({
+			sub: 'shirakami'
+		})
+		expect(await verify(token, { typ: 'JWT' })).toBe(false)
+	})
+
+	it('keep options out of the payload', async () => {
+		const { sign } = signer({ secret: 'A' })
+
+		const token = await sign(
+			{ sub: 'shirakami' },
+			{
+				header: { typ: 'logout+jwt', tenant: 'hololive' },
+				key: { kid: 'logout', secret: 'logout secret' },
+				alg: 'HS512'
+			}
+		)
+
+		expect(decodeProtectedHeader(token)).toEqual({
+			alg: 'HS512',
+			kid: 'logout',
+			typ: 'logout+jwt',
+			tenant: 'hololive'
+		})
+
+		const payload = decodeJwt(token)
+
+		expect(Object.keys(payload).sort()).toEqual(['iat', 'sub'])
+	})
+
+	it('sign with a key of the ring by kid', async () => {
+		const { sign, verify } = signer({
+			keys: [
+				{ kid: 'access', secret: 'access secret', active: true },
+				{ kid: 'logout', secret: 'logout secret' }
+			]
+		})
+
+		const token = await sign({ sub: 'shirakami' }, { key: 'logout' })
+
+		expect(decodeProtectedHeader(token).kid).toBe('logout')
+		expect(await verify(token)).toMatchObject({ sub: 'shirakami' })
+
+		await expect(
+			sign({ sub: 'shirakami' }, { key: 'unknown' })
+		).rejects.toThrow('is not in the key ring')
+	})
+
+	it('sign with a key outside of the ring', async () => {
+		const { sign } = signer({ secret: 'A' })
+
+		const token = await sign(
+			{ sub: 'shirakami' },
+			{ key: { kid: 'partner', secret: 'partner secret' } }
+		)
+
+		expect(decodeProtectedHeader(token).kid).toBe('partner')
+		expect(
+			(await jwtVerify(token, new TextEncoder().encode('partner secret')))
+				.payload.sub
+		).toBe('shirakami')
+	})
+
+	it('reject alg and kid in the header', async () => {
+		const { sign } = signer({
+			keys: [
+				{ kid: 'access', secret: 'access secret', active: true },
+				{ kid: 'logout', secret: 'logout secret' }
+			]
+		})
+
+		await expect(
+			sign(
+				{ sub: 'shirakami' },
+				// @ts-expect-error
+				{ key: 'access', header: { kid: 'logout' } }
+			)
+		).rejects.toThrow('not the header')
+		await expect(
+			// @ts-expect-error
+			sign({ sub: 'shirakami' }, { header: { alg: 'HS512' } })
+		).rejects.toThrow('not the header')
+	})
+
+	it('reject alg of another algorithm than the key', async () => {
+		const { sign } = signer({ secret: 'A' })
+
+		await expect(
+			sign({ sub: 'shirakami' }, { alg: 'HS512' })
+		).rejects.toThrow('the selected key signs with HS256')
+		expect(await sign({ sub: 'shirakami' }, { alg: 'HS256' })).toBeString()
+	})
+})
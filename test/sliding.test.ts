@@ -0,0 +1,119 @@
+import { Elysia } from 'elysia'
+import { decodeJwt } from 'jose'
+
+import { jwt } from '../src'
+
+import { describe, expect, it } from 'bun:test'
+
+const now = () => Math.floor(Date.now() / 1000)
+
+const get = (headers: Record<string, string> = {}) =>
+	new Request('http://localhost/profile', { headers })
+
+describe('Sliding Session', () => {
+	const app = new Elysia()
+		.use(
+			jwt({
+				secret: 'A',
+				exp: '30m',
+				sliding: { threshold: '5m', maxAge: '1h' }
+			})
+		)
+		.get('/profile', ({ payload }) => payload.sub, { jwt: true })
+
+	const { sign } = app.decorator.jwt
+
+	it('re-sign token about to expire', async () => {
+		const token = await sign({ sub: 'shirakami', exp: now() + 60 })
+		const response = await app.handle(
+			get({ authorization: `Bearer ${token}` })
+		)
+
+		expect(response.status).toBe(200)
+
+		const renewed = response.headers.get('x-access-token')
+		if (!renewed) throw new Error('Expected token to be re-signed')
+
+		const payload = decodeJwt(renewed)
+
+		expect(payload.sub).toBe('shirakami')
+		expect(payload.exp! - now()).toBeGreaterThan(1700)
+		expect(payload.auth_time).toBe(decodeJwt(token).iat)
+	})
+
+	it('keep token with enough lifetime', async () => {
+		const token = await sign({ sub: 'shirakami', exp: '20m' })
+		const response = await app.handle(
+			get({ authorization: `Bearer ${token}` })
+		)
+
+		expect(response.headers.get('x-access-token')).toBeNull()
+	})
+
+	it('cap expiration at session max age', async () => {
+		const authTime = now() - 3000
+		const token = await sign({
+			sub: 'shirakami',
+			auth_time: authTime,
+			exp: now() + 60
+		})
+
+		const response = await app.handle(
+			get({ authorization: `Bearer ${token}` })
+		)
+		const renewed = response.headers.get('x-access-token')
+		if (!renewed) throw new Error('Expected token to be re-signed')
+
+		expect(decodeJwt(renewed)).toMatchObject({
+			auth_time: authTime,
+			exp: authTime + 3600
+		})
+	})
+
+	it('stop re-signing after session max age', async () => {
+		const token = await sign({
+			sub: 'shirakami',
+			auth_time: now() - 3590,
+			exp: now() + 60
+		})
+
+		const response = await app.handle(
+			get({ authorization: `Bearer ${token}` })
+		)
+
+		expect(response.status).toBe(200)
+		expect(response.headers.get('x-access-token')).toBeNull()
+	})
+
+	it('set re-signed token on source cookie', async () => {
+		const app = new Elysia()
+			.use(
+				jwt({
+					secret: 'A',
+					exp: '30m',
+					extractor: { cookie: 'session' },
+					sliding: { threshold: '5m' }
+				})
+			)
+			.get('/profile', ({ payload }) => payload.sub, { jwt: true })
+
+		const token = await app.decorator.jwt.sign({
+			sub: 'shirakami',
+			exp: now() + 60
+		})
+		const response = await app.handle(get({ cookie: `session=${token}` }))
+
+		const cookie = response.headers.get('set-cookie')
+
+		expect(cookie).toStartWith('session=')
+		expect(cookie).not.toContain(token)
+		expect(cookie).toContain('HttpOnly')
+		expect(cookie).toContain('Secure')
+	})
+
+	it('require relative exp', () => {
+		expect(() =>
+			jwt({ secret: 'A', sliding: { threshold: '5m' } })
+		).toThrow()
+	})
+})
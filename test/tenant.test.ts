@@ -0,0 +1,163 @@
+import { Elysia } from 'elysia'
+import { decodeJwt } from 'jose'
+
+import { jwt, type JWTSecretContext } from '../src'
+
+import { describe, expect, it } from 'bun:test'
+
+const secrets: Record<string, string> = {
+	hololive: 'hololive secret',
+	nijisanji: 'nijisanji secret'
+}
+
+const tenantJWT = () => {
+	const resolved: (string | undefined)[] = []
+
+	const plugin = jwt({
+		secret: async ({ tenant }: JWTSecretContext) => {
+			resolved.push(tenant)
+
+			return tenant ? secrets[tenant] : undefined
+		}
+	})
+
+	return { resolved, ...plugin.decorator.jwt }
+}
+
+describe('Secret Resolver', () => {
+	it('sign and verify with the secret of each tenant', async () => {
+		const { sign, verify } = tenantJWT()
+
+		const hololive = await sign({ sub: 'shirakami', tid: 'hololive' })
+		const nijisanji = await sign({ sub: 'tsukino', tid: 'nijisanji' })
+
+		expect(await verify(hololive)).toMatchObject({ sub: 'shirakami' })
+		expect(await verify(nijisanji)).toMatchObject({ sub: 'tsukino' })
+	})
+
+	it('reject a token signed with another tenant secret', async () => {
+		const { sign, verifyResult } = tenantJWT()
+
+		const token = await sign({ sub: 'shirakami', tid: 'hololive' })
+		const [header, , signature] = token.split('.')
+
+		const forged = Buffer.from(
+			JSON.stringify({ ...decodeJwt(token), tid: 'nijisanji' })
+		).toString('base64url')
+
+		const result = await verifyResult([header, forged, signature].join('.'))
+		if (result.success) throw new Error('Expected verification to fail')
+
+		expect(result.error.code).toBe('invalid_signature')
+	})
+
+	it('cache the key of a tenant', async () => {
+		const { sign, verify, resolved } = tenantJWT()
+
+		const token = await sign({ sub: 'shirakami', tid: 'hololive' })
+		await verify(token)
+		await verify(token)
+
+		expect(resolved).toEqual(['hololive'])
+	})
+
+	it('drop the key of an invalidated tenant', async () => {
+		const tenants: Record<string, string> = { ...secrets }
+		const { sign, verify, invalidateTenant } = jwt({
+			secret: ({ tenant }) => (tenant ? tenants[tenant] : undefined)
+		}).decorator.jwt
+
+		const token = await sign({ sub: 'shirakami', tid: 'hololive' })
+		expect(await verify(token)).toMatchObject({ sub: 'shirakami' })
+
+		tenants.hololive = 'rotated secret'
+
+		// The previous key is cached until the tenant is invalidated
+		expect(await verify(token)).toMatchObject({ sub: 'shirakami' })
+
+		invalidateTenant('hololive')
+
+		expect(await verify(token)).toBe(false)
+	})
+
+	it('resolve the secret again after ttl', async () => {
+		const resolved: (string | undefined)[] = []
+		const { sign, verify } = jwt({
+			secret: ({ tenant }) => {
+				resolved.push(tenant)
+
+				return tenant ? secrets[tenant] : undefined
+			},
+			tenantCache: { ttl: 0 }
+		}).decorator.jwt
+
+		const token = await sign({ sub: 'shirakami', tid: 'hololive' })
+		await verify(token)
+
+		expect(resolved).toEqual(['hololive', 'hololive'])
+	})
+
+	it('evict the oldest tenant key', async () => {
+		const resolved: (string | undefined)[] = []
+		const { sign, verify } = jwt({
+			secret: ({ tenant }) => {
+				resolved.push(tenant)
+
+				return tenant ? secrets[tenant] : undefined
+			},
+			tenantCache: { max: 1 }
+		}).decorator.jwt
+
+		const hololive = await sign({ sub: 'shirakami', tid: 'hololive' })
+		await sign({ sub: 'tsukino', tid: 'nijisanji' })
+		await verify(hololive)
+
+		expect(resolved).toEqual(['hololive', 'nijisanji', 'hololive'])
+	})
+
+	it('fail verification of an unknown tenant', async () => {
+		const { verifyResult, resolved } = tenantJWT()
+
+		const { sign } = jwt({ secret: 'unknown secret' }).decorator.jwt
+		const token = await sign({ sub: 'shirakami', tid: 'unknown' })
+
+		const result = await verifyResult(token)
+		if (result.success) throw new Error('Expected verification to fail')
+
+		expect(result.error.code).toBe('unknown_key')
+
+		// Unknown tenants are resolved again, they may be added later
+		await verifyResult(token)
+		expect(resolved).toEqual(['unknown', 'unknown'])
+	})
+
+	it('reject an unknown tenant on sign', async () => {
+		const { sign } = tenantJWT()
+
+		await expect(
+			sign({ sub: 'shirakami', tid: 'unknown' })
+		).rejects.toThrow('without a secret resolved')
+	})
+
+	it('respond 401 to an unknown tenant', async () => {
+		const app = new Elysia()
+			.use(
+				jwt({
+					secret: ({ tenant }) =>
+						tenant ? secrets[tenant] : undefined
+				})
+			)
+			.get('/profile', ({ payload }) => payload.sub, { jwt: true })
+
+		const { sign } = jwt({ secret: 'unknown secret' }).decorator.jwt
+		const token = await sign({ sub: 'shirakami', tid: 'unknown' })
+
+		const response = await app.handle(
+			new Request('http://localhost/profile', {
+				headers: { authorization: `Bearer ${token}` }
+			})
+		)
+
+		expect(response.status).toBe(401)
+	})
+})
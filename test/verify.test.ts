@@ -0,0 +1,196 @@
+import { t } from 'elysia'
+import { SignJWT } from 'jose'
+
+import { jwt } from '../src'
+
+import { describe, expect, it } from 'bun:test'
+
+const TEST_SECRET = 'A'
+
+describe('Verify Result', () => {
+	const { sign, verifyResult } = jwt({
+		secret: TEST_SECRET,
+		schema: t.Object({
+			name: t.String()
+		})
+	}).decorator.jwt
+
+	const signRaw = (payload: Record<string, unknown>, secret = TEST_SECRET) =>
+		new SignJWT(payload)
+			.setProtectedHeader({ alg: 'HS256' })
+			.sign(new TextEncoder().encode(secret))
+
+	it('return payload and header', async () => {
+		const result = await verifyResult(await sign({ name: 'Shirakami' }))
+
+		if (!result.success) throw new Error('Expected verification to pass')
+
+		expect(result.payload.name).toBe('Shirakami')
+		expect(result.header).toMatchObject({ alg: 'HS256', typ: 'JWT' })
+	})
+
+	it('report missing token', async () => {
+		const result = await verifyResult(undefined)
+
+		expect(result.success).toBe(false)
+		if (!result.success) expect(result.error.code).toBe('missing')
+	})
+
+	it('report malformed token', async () => {
+		const result = await verifyResult('invalid')
+
+		if (!result.success) expect(result.error.code).toBe('malformed')
+		else throw new Error('Expected verification to fail')
+	})
+
+	it('report expired token', async () => {
+		const result = await verifyResult(
+			await signRaw({
+				name: 'Shirakami',
+				exp: Math.floor(Date.now() / 1000) - 3600
+			})
+		)
+
+		if (!result.success) {
+			expect(result.error.code).toBe('expired')
+			expect(result.error.claim).toBe('exp')
+		} else throw new Error('Expected verification to fail')
+	})
+
+	it('report token not yet valid', async () => {
+		const result = await verifyResult(
+			await sign({ name: 'Shirakami', nbf: '1h' })
+		)
+
+		if (!result.success) expect(result.error.code).toBe('not_yet_valid')
+		else throw new Error('Expected verification to fail')
+	})
+
+	it('report invalid signature', async () => {
+		const result = await verifyResult(
+			await signRaw({ name: 'Shirakami' }, 'B')
+		)
+
+		if (!result.success) expect(result.error.code).toBe('invalid_signature')
+		else throw new Error('Expected verification to fail')
+	})
+
+	it('report claim mismatch', async () => {
+		const result = await verifyResult(
+			await sign({ name: 'Shirakami', iss: 'elysia' }),
+			{ issuer: 'other' }
+		)
+
+		if (!result.success) {
+			expect(result.error.code).toBe('claim_mismatch')
+			expect(result.error.claim).toBe('iss')
+		} else throw new Error('Expected verification to fail')
+	})
+
+	it('report schema mismatch', async () => {
+		const result = await verifyResult(await signRaw({ name: 1 }))
+
+		if (!result.success) expect(result.error.code).toBe('schema_invalid')
+		else throw new Error('Expected verification to fail')
+	})
+})
+
+describe('Verify Defaults', () => {
+	const { sign, verify, verifyResult } = jwt({
+		secret: TEST_SECRET,
+		iss: 'hololive',
+		aud: 'holodex',
+		typ: 'at+jwt'
+	}).decorator.jwt
+
+	const signRaw = (
+		payload: Record<string, unknown>,
+		header: Record<string, unknown> = {}
+	) =>
+		new SignJWT(payload)
+			.setProtectedHeader({ alg: 'HS256', typ: 'at+jwt', ...header })
+			.setIssuedAt()
+			.sign(new TextEncoder().encode(TEST_SECRET))
+
+	it('accept token matching defaults', async () => {
+		expect(await verify(await sign({ sub: 'shirakami' }))).toMatchObject({
+			iss: 'hololive',
+			aud: 'holodex'
+		})
+	})
+
+	it('reject token from another issuer', async () => {
+		const result = await verifyResult(
+			await signRaw({ iss: 'nijisanji', aud: 'holodex' })
+		)
+		if (result.success) throw new Error('Expected verification to fail')
+
+		expect(result.error).toMatchObject({
+			code: 'claim_mismatch',
+			claim: 'iss'
+		})
+	})
+
+	it('reject token for another audience', async () => {
+		const result = await verifyResult(
+			await signRaw({ iss: 'hololive', aud: 'other' })
+		)
+		if (result.success) throw new Error('Expected verification to fail')
+
+		expect(result.error.claim).toBe('aud')
+	})
+
+	it('reject token of another type', async () => {
+		const token = await signRaw(
+			{ iss: 'hololive', aud: 'holodex' },
+			{ typ: 'JWT' }
+		)
+
+		expect(await verify(token)).toBe(false)
+	})
+
+	it('reject algorithm other than configured', async () => {
+		const token = await signRaw(
+			{ iss: 'hololive', aud: 'holodex' },
+			{ alg: 'HS512' }
+		)
+
+		const result = await verifyResult(token)
+		if (result.success) throw new Error('Expected verification to fail')
+
+		expect(result.error.code).toBe('invalid_signature')
+	})
+
+	it('merge per-call options over defaults', async () => {
+		const token = await signRaw({ iss: 'hololive', aud: 'other' })
+
+		expect(await verify(token, { audience: 'other' })).toMatchObject({
+			aud: 'other'
+		})
+		expect(
+			await verify(token, { audience: 'other', issuer: 'nijisanji' })
+		).toBe(false)
+	})
+
+	it('enforce maxTokenAge and clockTolerance', async () => {
+		const { verifyResult } = jwt({
+			secret: TEST_SECRET,
+			maxTokenAge: '1h',
+			clockTolerance: 60
+		}).decorator.jwt
+
+		const issuedAt = Math.floor(Date.now() / 1000)
+		const signAt = (iat: number, exp?: number) =>
+			new SignJWT({ iat, exp })
+				.setProtectedHeader({ alg: 'HS256' })
+				.sign(new TextEncoder().encode(TEST_SECRET))
+
+		const old = await verifyResult(await signAt(issuedAt - 7200))
+		if (old.success) throw new Error('Expected verification to fail')
+		expect(old.error.claim).toBe('iat')
+
+		expect(
+			(await verifyResult(await signAt(issuedAt, issuedAt - 30))).success
+		).toBe(true)
+	})
+})